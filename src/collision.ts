@@ -0,0 +1,75 @@
+import { Rectangle, Vector2 } from './types';
+
+/**
+ * Collision helpers
+ * Swept tests move a box along its displacement for one step and report the
+ * earliest contact, so fast movers cannot pass through thin platforms or
+ * small hazards between two updates.
+ */
+
+export interface SweepHit {
+  time: number; // fraction of the motion (0-1) at first contact
+  normalX: number; // side of the target that was hit: -1, 0 or 1
+  normalY: number;
+}
+
+// Rectangle overlap (touching edges do not count)
+export function intersects(a: Rectangle, b: Rectangle): boolean {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
+
+// First contact of `box` moving by `motion` with a static `target`, or null if
+// they never touch within the motion. Boxes already overlapping hit at time 0.
+export function sweepAABB(box: Rectangle, motion: Vector2, target: Rectangle): SweepHit | null {
+  if (intersects(box, target)) {
+    return { time: 0, normalX: 0, normalY: 0 };
+  }
+
+  const x = sweepAxis(box.x, box.width, motion.x, target.x, target.width);
+  const y = sweepAxis(box.y, box.height, motion.y, target.y, target.height);
+  if (!x || !y) return null;
+
+  const entry = Math.max(x.entry, y.entry);
+  const exit = Math.min(x.exit, y.exit);
+  if (entry > exit || entry < 0 || entry > 1) return null;
+
+  // The axis entered last is the side that was hit
+  if (x.entry > y.entry) {
+    return { time: entry, normalX: -Math.sign(motion.x), normalY: 0 };
+  }
+  return { time: entry, normalX: 0, normalY: -Math.sign(motion.y) };
+}
+
+// Times at which a moving interval starts and stops overlapping a fixed one
+function sweepAxis(
+  start: number,
+  size: number,
+  motion: number,
+  targetStart: number,
+  targetSize: number
+): { entry: number; exit: number } | null {
+  if (motion === 0) {
+    // Not moving on this axis - overlaps for the whole step or never
+    const overlapping = start < targetStart + targetSize && start + size > targetStart;
+    return overlapping ? { entry: -Infinity, exit: Infinity } : null;
+  }
+
+  const near = motion > 0 ? targetStart - (start + size) : targetStart + targetSize - start;
+  const far = motion > 0 ? targetStart + targetSize - start : targetStart - (start + size);
+  return { entry: near / motion, exit: far / motion };
+}
+
+// Box at a fraction of its motion
+export function boxAt(box: Rectangle, motion: Vector2, time: number): Rectangle {
+  return {
+    x: box.x + motion.x * time,
+    y: box.y + motion.y * time,
+    width: box.width,
+    height: box.height,
+  };
+}
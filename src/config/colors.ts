@@ -28,5 +28,9 @@ export const COLORS = {
   
   // Game over
   GAMEOVER_TITLE: "#FF4444",
+  
+  // Run timer deltas (ahead of / behind the personal best)
+  AHEAD: "#2ecc71",
+  BEHIND: "#e74c3c",
 } as const;
 
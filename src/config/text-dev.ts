@@ -5,15 +5,96 @@
 import { TextConfig } from "./text";
 
 export const TEXT_DEV: TextConfig = {
+  id: "dev",
   title: "Jump\nUp!",
   subtitle: "Happy New Year 2026!",
   copy: "Jump your way to the top,\navoid enemies and obstacles,\nand reach the portal!",
   startButton: "Start!",
+  endlessButton: "Endless",
+  editorButton: "Level Editor",
+  scoresButton: "High Scores",
+  customLevel: "Custom tower: {name}",
+  customLevelInvalid: "This tower link is broken - playing the built-in towers",
+  customLevelMissing: "No tower saved in slot \"{slot}\" - playing the built-in towers",
+  customLevelErrors: "{name} has errors and was not loaded",
 
   win: {
     title: "You Win!",
     copy: "Congratulations!\nYou reached the portal!\n\nGreat job!\nTry again to beat your time!",
+    stats: "Levels: {levels}  Stomps: {stomps}",
     restartButton: "Play Again!",
+    time: "Time: {time}",
+    newBest: "New personal best! {delta}",
+    best: "Best: {time} ({delta})",
+  },
+
+  level: {
+    title: "Level {level}",
+  },
+
+  diagnostics: {
+    title: "Level {level} has errors",
+    hint: "Press Escape or tap to go back",
+  },
+
+  editor: {
+    play: "Play",
+    playHere: "From…",
+    export: "Export",
+    import: "Import",
+    exit: "Exit",
+    hint: "Paint: click/drag · Erase: right-click · 1-0: tiles · T: play from cursor",
+  },
+
+  pause: {
+    title: "Paused",
+    resume: "Resume",
+    restart: "Restart",
+    sound: "Sound: {state}",
+    soundOn: "on",
+    soundOff: "off",
+    quit: "Quit to title",
+    backToEditor: "Back to editor",
+  },
+
+  scores: {
+    title: "High Scores",
+    campaign: "Campaign",
+    endless: "Endless",
+    empty: "No scores yet",
+    completed: "{rank}. {name}  {time}",
+    failed: "{rank}. {name}  ↑ {height}m",
+    hint: "← → switch table · Esc back",
+    enterName: "New high score! Your name:",
+    nameHint: "Type, or pick a letter with ◀ ▶ and jump to add it",
+    erase: "⌫",
+    save: "Save",
+    rank: "#{rank} in the high scores",
+  },
+
+  replay: {
+    playing: "Replay {speed}x",
+    paused: "Replay paused",
+    ended: "Replay ended",
+    hint: "Space pause · → step · F speed · Esc stop",
+    pause: "❚❚",
+    resume: "▶",
+    step: "▶❚",
+    speed: "{speed}x",
+    stop: "■",
+    save: "Save replay (R)",
+    saved: "Replay saved · link copied",
+    invalid: "This replay can't be played by this version",
+    otherLevels: "This replay was recorded on other towers",
+  },
+
+  ghost: {
+    delta: "Ghost {delta}",
+    loaded: "Racing {name}'s ghost ({time})",
+    share: "Share ghost (G)",
+    shared: "Ghost saved",
+    invalid: "This ghost can't be raced by this version",
+    otherLevels: "This ghost was recorded on other towers",
   },
 
   gameOver: {
@@ -24,6 +105,19 @@ export const TEXT_DEV: TextConfig = {
   ui: {
     lives: "♥ {lives}",
     distance: "↑ {height}m",
+    height: "↑ {height}m",
+    best: "Best {height}m",
+    score: "★ {score}",
+    tally: "Score: {score}  Stars: {stars}  Coins: {coins}",
+    time: "⏱ {time}",
+  },
+
+  powerUps: {
+    doubleJump: "Double Jump",
+    shield: "Shield",
+    magnet: "Star Magnet",
+    highJump: "High Jump",
+    slowFall: "Slow Fall",
   },
 
   loading: {
@@ -5,15 +5,96 @@
 import { TextConfig } from "./text";
 
 export const TEXT_NEO: TextConfig = {
+  id: "neo",
   title: "NEO\nJump",
   subtitle: "Alles Gute im neuen Jahr!",
   copy: "Hast du am Abend vom \n10.2.2025 schon Pläne? \nIch würde gerne mit dir \netwas unternehmen \n(mit Übernachten bei mir).\n\nHier schon mal ein kleines Spiel \nfür die Zeitvertreibung.",
   startButton: "Start!",
+  endlessButton: "Endlos",
+  editorButton: "Level-Editor",
+  scoresButton: "Bestenliste",
+  customLevel: "Eigener Turm: {name}",
+  customLevelInvalid: "Dieser Turm-Link ist kaputt - es geht mit den normalen Türmen los",
+  customLevelMissing: "Kein Turm im Platz \"{slot}\" - es geht mit den normalen Türmen los",
+  customLevelErrors: "{name} hat Fehler und wurde nicht geladen",
 
   win: {
     title: "Geschafft!",
     copy: "Herzlichen Glückwunsch, Neo!\nDu hast das Portal erreicht!",
+    stats: "Level: {levels}  Besiegt: {stomps}",
     restartButton: "Neustart!",
+    time: "Zeit: {time}",
+    newBest: "Neue Bestzeit! {delta}",
+    best: "Bestzeit: {time} ({delta})",
+  },
+
+  level: {
+    title: "Level {level}",
+  },
+
+  diagnostics: {
+    title: "Level {level} hat Fehler",
+    hint: "Escape drücken oder tippen, um zurückzugehen",
+  },
+
+  editor: {
+    play: "Spielen",
+    playHere: "Ab…",
+    export: "Export",
+    import: "Import",
+    exit: "Zurück",
+    hint: "Malen: Klicken/Ziehen · Löschen: Rechtsklick · 1-0: Felder · T: ab Cursor spielen",
+  },
+
+  pause: {
+    title: "Pause",
+    resume: "Weiter",
+    restart: "Neustart",
+    sound: "Ton: {state}",
+    soundOn: "an",
+    soundOff: "aus",
+    quit: "Zum Titel",
+    backToEditor: "Zurück zum Editor",
+  },
+
+  scores: {
+    title: "Bestenliste",
+    campaign: "Kampagne",
+    endless: "Endlos",
+    empty: "Noch keine Einträge",
+    completed: "{rank}. {name}  {time}",
+    failed: "{rank}. {name}  ↑ {height}m",
+    hint: "← → Liste wechseln · Esc zurück",
+    enterName: "Neuer Highscore! Dein Name:",
+    nameHint: "Tippen oder ◀ ▶ Buchstabe wählen, Springen fügt ihn hinzu",
+    erase: "⌫",
+    save: "Speichern",
+    rank: "Platz {rank} der Bestenliste",
+  },
+
+  replay: {
+    playing: "Wiederholung {speed}x",
+    paused: "Wiederholung pausiert",
+    ended: "Wiederholung zu Ende",
+    hint: "Leertaste Pause · → Schritt · F Tempo · Esc Stopp",
+    pause: "❚❚",
+    resume: "▶",
+    step: "▶❚",
+    speed: "{speed}x",
+    stop: "■",
+    save: "Wiederholung speichern (R)",
+    saved: "Gespeichert · Link kopiert",
+    invalid: "Diese Wiederholung kann nicht abgespielt werden",
+    otherLevels: "Diese Wiederholung stammt von anderen Türmen",
+  },
+
+  ghost: {
+    delta: "Geist {delta}",
+    loaded: "Rennen gegen den Geist von {name} ({time})",
+    share: "Geist teilen (G)",
+    shared: "Geist gespeichert",
+    invalid: "Gegen diesen Geist kann nicht gespielt werden",
+    otherLevels: "Dieser Geist stammt von anderen Türmen",
   },
 
   gameOver: {
@@ -24,6 +105,19 @@ export const TEXT_NEO: TextConfig = {
   ui: {
     lives: "♥ {lives}",
     distance: "↑ {height}m",
+    height: "↑ {height}m",
+    best: "Rekord {height}m",
+    score: "★ {score}",
+    tally: "Punkte: {score}  Sterne: {stars}  Münzen: {coins}",
+    time: "⏱ {time}",
+  },
+
+  powerUps: {
+    doubleJump: "Doppelsprung",
+    shield: "Schild",
+    magnet: "Sternmagnet",
+    highJump: "Supersprung",
+    slowFall: "Gleiten",
   },
 
   loading: {
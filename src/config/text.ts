@@ -6,9 +6,12 @@
 import { TEXT_NEO } from "./text-neo";
 import { TEXT_LUAN } from "./text-luan";
 import { TEXT_DEV } from "./text-dev";
+import { PowerUpType } from "../types";
 
 // Type definition for text configuration (matching Meteor Defense style)
 export interface TextConfig {
+  // Recipient id - keeps the high scores of different configs apart
+  id: string;
   // Multi-line title (use \n for line breaks)
   title: string;
   // Subtitle shown below title
@@ -17,12 +20,115 @@ export interface TextConfig {
   copy: string;
   // Button text
   startButton: string;
+  endlessButton: string;
+  editorButton: string;
+  scoresButton: string;
+  // Shown on the intro when a custom level replaces the campaign
+  customLevel: string;
+  // Shown on the intro when a custom level could not be loaded: an unreadable
+  // link, an empty slot ({slot}) or a level with errors ({name})
+  customLevelInvalid: string;
+  customLevelMissing: string;
+  customLevelErrors: string;
   
   // Win screen
   win: {
     title: string;
     copy: string;
+    // Campaign summary shown below the copy
+    stats: string;
     restartButton: string;
+    // Run time and comparison with the personal best ({delta} is signed seconds)
+    time: string;
+    newBest: string;
+    best: string;
+  };
+  
+  // Transition between campaign levels
+  level: {
+    title: string;
+  };
+  
+  // Dev-only screen listing the errors of a level that cannot be played
+  diagnostics: {
+    title: string;
+    hint: string;
+  };
+  
+  // Level editor toolbar and usage hint
+  editor: {
+    play: string;
+    playHere: string;
+    export: string;
+    import: string;
+    exit: string;
+    hint: string;
+  };
+  
+  // Pause menu
+  pause: {
+    title: string;
+    resume: string;
+    restart: string;
+    // {state} is soundOn or soundOff
+    sound: string;
+    soundOn: string;
+    soundOff: string;
+    quit: string;
+    // Quit option during a play-test
+    backToEditor: string;
+  };
+  
+  // High-score table and name entry
+  scores: {
+    title: string;
+    // Table names
+    campaign: string;
+    endless: string;
+    empty: string;
+    // Table rows
+    completed: string;
+    failed: string;
+    hint: string;
+    // Name entry after a run that makes the table
+    enterName: string;
+    nameHint: string;
+    erase: string;
+    save: string;
+    // Shown on the end screens once the entry is saved
+    rank: string;
+  };
+  
+  // Replay playback bar and the end-screen button saving a replay
+  replay: {
+    // Playback state ({speed} is the playback speed)
+    playing: string;
+    paused: string;
+    ended: string;
+    hint: string;
+    // Playback bar buttons
+    pause: string;
+    resume: string;
+    step: string;
+    speed: string;
+    stop: string;
+    save: string;
+    saved: string;
+    // Intro notices for a replay that could not be played
+    invalid: string;
+    otherLevels: string;
+  };
+  
+  // Ghost racing ({delta} is signed seconds behind the ghost)
+  ghost: {
+    delta: string;
+    // Title screen line for a dropped ghost file
+    loaded: string;
+    share: string;
+    shared: string;
+    // Intro notices for a ghost file that could not be raced
+    invalid: string;
+    otherLevels: string;
   };
   
   // Game over screen
@@ -35,8 +141,19 @@ export interface TextConfig {
   ui: {
     lives: string;
     distance: string;
+    // Endless mode
+    height: string;
+    best: string;
+    // Score HUD and end-screen tally
+    score: string;
+    tally: string;
+    // Run timer
+    time: string;
   };
   
+  // Power-up names for the HUD
+  powerUps: Record<PowerUpType, string>;
+  
   // Loading screen
   loading: {
     title: string;
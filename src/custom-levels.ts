@@ -0,0 +1,75 @@
+/**
+ * Custom levels from outside the build
+ * A level source can be shared as a compressed `?level=` URL parameter,
+ * kept in a named localStorage slot (`?slot=<name>`) or dropped onto the
+ * page as a .txt file.
+ */
+
+const SLOT_PREFIX = 'jump-up.level.';
+
+// Slot the editor keeps its work in
+export const EDITOR_SLOT = 'editor';
+
+// Run data through a (de)compression stream
+async function transform(input: Blob, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(input.stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// URL-safe base64 without padding
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Blob {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes]);
+}
+
+// Compress a level source for the `?level=` parameter
+export async function encodeLevelParam(source: string): Promise<string> {
+  return toBase64Url(await transform(new Blob([source]), new CompressionStream('deflate-raw')));
+}
+
+// Throws if the parameter is not a compressed level
+export async function decodeLevelParam(param: string): Promise<string> {
+  const bytes = await transform(fromBase64Url(param), new DecompressionStream('deflate-raw'));
+  return new TextDecoder().decode(bytes);
+}
+
+// Link that opens the game with the given level
+export async function createShareUrl(source: string): Promise<string> {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set('level', await encodeLevelParam(source));
+  return url.toString();
+}
+
+export function loadLevelSlot(name: string): string | null {
+  try {
+    return localStorage.getItem(SLOT_PREFIX + name);
+  } catch {
+    return null;
+  }
+}
+
+export function saveLevelSlot(name: string, source: string): void {
+  try {
+    localStorage.setItem(SLOT_PREFIX + name, source);
+  } catch {
+    // Storage can be unavailable (private mode) - slots then only last the session
+  }
+}
+
+// Only plain text files are taken as levels
+export function isLevelFile(file: File): boolean {
+  return file.type === 'text/plain' || file.name.toLowerCase().endsWith('.txt');
+}
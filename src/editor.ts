@@ -0,0 +1,695 @@
+import { LevelData, Rectangle, TILE_TYPES, TileType } from './types';
+import { parseLevel, splitLevelSource, TILE_SIZE } from './level-parser';
+import { TILE_GLYPHS } from './level-serializer';
+import { EDITOR_SLOT, loadLevelSlot, saveLevelSlot, createShareUrl, isLevelFile } from './custom-levels';
+import { Player } from './player';
+import { renderPlatform, renderEnemy, renderCannon, renderCollectible, renderCheckpoint } from './entities';
+import { TEXT } from './config/text';
+import { COLORS } from './config/colors';
+
+/**
+ * In-browser level editor
+ * Edits the ASCII grid directly and previews it through parseLevel and the
+ * game's own render functions, so what is painted is what gets played.
+ * Front matter (metadata and per-entity overrides) is kept as text.
+ */
+
+const FONT_BODY = "'Space Mono', monospace";
+
+// Screen layout in CSS pixels
+const TOOLBAR_HEIGHT = 44;
+const PALETTE_HEIGHT = 56;
+const STATUS_HEIGHT = 24;
+
+const MAX_UNDO = 100;
+
+// Size of a new, empty level
+const NEW_LEVEL_WIDTH = 30;
+const NEW_LEVEL_HEIGHT = 20;
+
+// One glyph per tile kind, in TILE_TYPES order
+const PALETTE: string[] = [...new Set(Object.values(TILE_TYPES))].map(kind => TILE_GLYPHS[kind]);
+
+// Tile kinds a level may only contain once
+const UNIQUE_GLYPHS = [TILE_GLYPHS['player-start'], TILE_GLYPHS.portal];
+
+type EditorAction =
+  | 'undo'
+  | 'redo'
+  | 'scrollUp'
+  | 'scrollDown'
+  | 'addRow'
+  | 'removeRow'
+  | 'play'
+  | 'playHere'
+  | 'export'
+  | 'import'
+  | 'exit';
+
+interface ToolbarButton extends Rectangle {
+  action: EditorAction;
+  label: string;
+}
+
+interface EditorSnapshot {
+  header: string[];
+  rows: string[];
+}
+
+interface GridCell {
+  row: number;
+  col: number;
+}
+
+export interface EditorCallbacks {
+  // Play the given level source (the editor stays loaded for the way back)
+  onPlayTest: (source: string) => void;
+  onExit: () => void;
+}
+
+export class LevelEditor {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly callbacks: EditorCallbacks;
+  private isOpen = false;
+
+  // Level being edited - header lines as written, grid rows top to bottom
+  private header: string[] = [];
+  private grid: string[][] = [];
+  private preview!: LevelData;
+  private startMarker: Player | null = null;
+
+  private undoStack: EditorSnapshot[] = [];
+  private redoStack: EditorSnapshot[] = [];
+  // Snapshot taken when a stroke starts, pushed once the stroke changes a tile
+  private pendingUndo: EditorSnapshot | null = null;
+
+  private selected = PALETTE.indexOf(TILE_GLYPHS['platform-normal']);
+  private painting: string | null = null;
+  private pickingStart = false;
+  private hover: GridCell | null = null;
+  private status = '';
+
+  // World Y at the bottom edge of the grid view
+  private scrollY = 0;
+
+  // Layout of the last rendered frame
+  private width = 0;
+  private height = 0;
+  private scale = 1;
+  private offsetX = 0;
+  private toolbar: ToolbarButton[] = [];
+  private paletteItemWidth = 0;
+  private paletteX = 0;
+
+  constructor(canvas: HTMLCanvasElement, callbacks: EditorCallbacks) {
+    this.canvas = canvas;
+    this.callbacks = callbacks;
+    // Continue where the last session left off
+    this.load(loadLevelSlot(EDITOR_SLOT) ?? this.createEmptyLevel());
+  }
+
+  open(): void {
+    if (this.isOpen) return;
+    this.isOpen = true;
+    this.pickingStart = false;
+    this.painting = null;
+
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.addEventListener('contextmenu', this.handleContextMenu);
+    this.canvas.addEventListener('wheel', this.handleWheel, { passive: false });
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+    window.addEventListener('keydown', this.handleKey);
+  }
+
+  close(): void {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+    this.painting = null;
+    this.hover = null;
+
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.removeEventListener('contextmenu', this.handleContextMenu);
+    this.canvas.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('keydown', this.handleKey);
+  }
+
+  // Message shown above the palette until the next edit
+  showStatus(message: string): void {
+    this.status = message;
+  }
+
+  // Current level as ASCII source, front matter included
+  getSource(): string {
+    return this.buildSource(this.header, this.grid.map(row => row.join('')));
+  }
+
+  // Replace the level being edited (undoable)
+  importLevel(source: string): void {
+    this.pushUndo();
+    this.load(source);
+  }
+
+  // Replace the level being edited, normalizing glyphs to their ASCII form
+  private load(source: string): void {
+    const { header, rows } = splitLevelSource(source);
+    this.header = header.map(entry => (entry.value === '' ? entry.key : `${entry.key}: ${entry.value}`));
+
+    const cells = rows.map(line =>
+      [...line].map(char => (char in TILE_TYPES ? TILE_GLYPHS[TILE_TYPES[char as TileType]] : TILE_GLYPHS.empty))
+    );
+    const width = Math.max(1, ...cells.map(row => row.length));
+    this.grid = cells.map(row => [...row, ...new Array(width - row.length).fill(TILE_GLYPHS.empty)]);
+    if (this.grid.length === 0) {
+      this.grid.push(new Array(width).fill(TILE_GLYPHS.empty));
+    }
+
+    this.scrollY = 0;
+    this.status = '';
+    this.rebuild();
+  }
+
+  private createEmptyLevel(): string {
+    const rows: string[] = [];
+    for (let row = 0; row < NEW_LEVEL_HEIGHT; row++) {
+      rows.push(TILE_GLYPHS.empty.repeat(NEW_LEVEL_WIDTH));
+    }
+    const place = (row: number, col: number, glyph: string) => {
+      rows[row] = rows[row].slice(0, col) + glyph + rows[row].slice(col + 1);
+    };
+    rows[NEW_LEVEL_HEIGHT - 1] = TILE_GLYPHS['platform-normal'].repeat(NEW_LEVEL_WIDTH);
+    place(NEW_LEVEL_HEIGHT - 2, 1, TILE_GLYPHS['player-start']);
+    place(1, Math.floor(NEW_LEVEL_WIDTH / 2), TILE_GLYPHS.portal);
+    return rows.join('\n');
+  }
+
+  private buildSource(header: string[], rows: string[]): string {
+    if (header.length === 0) return rows.join('\n');
+    return ['---', ...header, '---', ...rows].join('\n');
+  }
+
+  // Re-parse the grid for the preview
+  private rebuild(): void {
+    this.preview = parseLevel(this.getSource());
+    const hasStart = this.grid.some(row => row.includes(TILE_GLYPHS['player-start']));
+    this.startMarker = hasStart ? new Player(this.preview.playerStart.x, this.preview.playerStart.y) : null;
+    this.scrollY = Math.max(0, Math.min(this.maxScroll(), this.scrollY));
+  }
+
+  // Undo / redo
+
+  private snapshot(): EditorSnapshot {
+    return { header: [...this.header], rows: this.grid.map(row => row.join('')) };
+  }
+
+  private restore(snapshot: EditorSnapshot): void {
+    this.header = [...snapshot.header];
+    this.grid = snapshot.rows.map(row => [...row]);
+    this.rebuild();
+  }
+
+  private pushUndo(snapshot: EditorSnapshot = this.snapshot()): void {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > MAX_UNDO) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.status = '';
+  }
+
+  private undo(): void {
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) return;
+    this.redoStack.push(this.snapshot());
+    this.restore(snapshot);
+  }
+
+  private redo(): void {
+    const snapshot = this.redoStack.pop();
+    if (!snapshot) return;
+    this.undoStack.push(this.snapshot());
+    this.restore(snapshot);
+  }
+
+  // Editing
+
+  private paint(cell: GridCell, glyph: string): void {
+    if (this.grid[cell.row][cell.col] === glyph) return;
+
+    if (this.pendingUndo) {
+      this.pushUndo(this.pendingUndo);
+      this.pendingUndo = null;
+    }
+
+    // Painting a second start or portal moves it instead
+    if (UNIQUE_GLYPHS.includes(glyph)) {
+      for (const row of this.grid) {
+        for (let col = 0; col < row.length; col++) {
+          if (row[col] === glyph) row[col] = TILE_GLYPHS.empty;
+        }
+      }
+    }
+
+    this.grid[cell.row][cell.col] = glyph;
+    this.rebuild();
+  }
+
+  // Add or remove an empty row at the top, keeping overrides on their entities
+  private resizeTop(delta: 1 | -1): void {
+    if (delta < 0 && this.grid.length <= 1) return;
+    this.pushUndo();
+
+    if (delta > 0) {
+      this.grid.unshift(new Array(this.grid[0].length).fill(TILE_GLYPHS.empty));
+    } else {
+      this.grid.shift();
+    }
+
+    // Override positions count rows from the top
+    this.header = this.header.flatMap(line => {
+      const match = /^@(\d+),(\d+)\s*:(.*)$/.exec(line);
+      if (!match) return [line];
+      const row = Number(match[1]) + delta;
+      return row >= 1 ? [`@${row},${match[2]}:${match[3]}`] : [];
+    });
+
+    this.rebuild();
+  }
+
+  // Play-test with the player starting at the given cell
+  private playFrom(cell: GridCell): void {
+    const start = TILE_GLYPHS['player-start'];
+    const current = this.grid[cell.row][cell.col];
+    if (current !== TILE_GLYPHS.empty && current !== start) return;
+
+    const rows = this.grid.map((row, rowIndex) =>
+      row.map((glyph, col) => {
+        if (rowIndex === cell.row && col === cell.col) return start;
+        return glyph === start ? TILE_GLYPHS.empty : glyph;
+      }).join('')
+    );
+    this.pickingStart = false;
+    saveLevelSlot(EDITOR_SLOT, this.getSource());
+    this.callbacks.onPlayTest(this.buildSource(this.header, rows));
+  }
+
+  private exportSource(): void {
+    const source = this.getSource();
+    const blob = new Blob([source + '\n'], { type: 'text/plain' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${this.preview.meta.name || 'level'}.txt`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    saveLevelSlot(EDITOR_SLOT, source);
+
+    // Also copy a link that opens the game with this level
+    createShareUrl(source)
+      .then(url => navigator.clipboard?.writeText(url))
+      .catch(() => {
+        // Clipboard access can be denied - the download still happened
+      });
+  }
+
+  private importSource(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.txt,text/plain';
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file || !isLevelFile(file)) return;
+      file.text().then(text => this.importLevel(text)).catch(console.error);
+    });
+    input.click();
+  }
+
+  private runAction(action: EditorAction): void {
+    switch (action) {
+      case 'undo':
+        this.undo();
+        break;
+      case 'redo':
+        this.redo();
+        break;
+      case 'scrollUp':
+        this.scrollBy(this.viewHeight() / this.scale / 2);
+        break;
+      case 'scrollDown':
+        this.scrollBy(-this.viewHeight() / this.scale / 2);
+        break;
+      case 'addRow':
+        this.resizeTop(1);
+        break;
+      case 'removeRow':
+        this.resizeTop(-1);
+        break;
+      case 'play':
+        this.pickingStart = false;
+        saveLevelSlot(EDITOR_SLOT, this.getSource());
+        this.callbacks.onPlayTest(this.getSource());
+        break;
+      case 'playHere':
+        this.pickingStart = !this.pickingStart;
+        break;
+      case 'export':
+        this.exportSource();
+        break;
+      case 'import':
+        this.importSource();
+        break;
+      case 'exit':
+        this.callbacks.onExit();
+        break;
+    }
+  }
+
+  // Scrolling
+
+  // Screen Y of the bottom edge of the grid view
+  private gridBottom(): number {
+    return this.height - PALETTE_HEIGHT - STATUS_HEIGHT;
+  }
+
+  private viewHeight(): number {
+    return this.gridBottom() - TOOLBAR_HEIGHT;
+  }
+
+  private maxScroll(): number {
+    const visible = this.scale > 0 ? this.viewHeight() / this.scale : 0;
+    return Math.max(0, this.grid.length * TILE_SIZE - visible + TILE_SIZE);
+  }
+
+  private scrollBy(amount: number): void {
+    this.scrollY = Math.max(0, Math.min(this.maxScroll(), this.scrollY + amount));
+  }
+
+  // Input
+
+  private cellAt(x: number, y: number): GridCell | null {
+    const gridBottom = this.gridBottom();
+    if (y < TOOLBAR_HEIGHT || y >= gridBottom) return null;
+
+    const tileSize = TILE_SIZE * this.scale;
+    const col = Math.floor((x - this.offsetX) / tileSize);
+    const rowFromBottom = Math.floor((this.scrollY + (gridBottom - y) / this.scale) / TILE_SIZE);
+    const row = this.grid.length - 1 - rowFromBottom;
+
+    if (row < 0 || row >= this.grid.length || col < 0 || col >= this.grid[0].length) return null;
+    return { row, col };
+  }
+
+  private readonly handlePointerDown = (e: PointerEvent) => {
+    e.preventDefault();
+    const x = e.clientX;
+    const y = e.clientY;
+
+    const button = this.toolbar.find(item =>
+      x >= item.x && x <= item.x + item.width && y >= item.y && y <= item.y + item.height
+    );
+    if (button) {
+      this.runAction(button.action);
+      return;
+    }
+
+    if (y >= this.height - PALETTE_HEIGHT) {
+      const index = Math.floor((x - this.paletteX) / this.paletteItemWidth);
+      if (index >= 0 && index < PALETTE.length) {
+        this.selected = index;
+      }
+      return;
+    }
+
+    const cell = this.cellAt(x, y);
+    if (!cell) return;
+
+    if (this.pickingStart) {
+      this.playFrom(cell);
+      return;
+    }
+
+    // Right button erases
+    this.painting = e.button === 2 ? TILE_GLYPHS.empty : PALETTE[this.selected];
+    this.pendingUndo = this.snapshot();
+    this.paint(cell, this.painting);
+  };
+
+  private readonly handlePointerMove = (e: PointerEvent) => {
+    this.hover = this.cellAt(e.clientX, e.clientY);
+    if (this.painting !== null && this.hover) {
+      this.paint(this.hover, this.painting);
+    }
+  };
+
+  private readonly handlePointerUp = () => {
+    this.painting = null;
+    this.pendingUndo = null;
+  };
+
+  private readonly handleContextMenu = (e: Event) => {
+    e.preventDefault();
+  };
+
+  private readonly handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.scrollBy(-e.deltaY / this.scale);
+  };
+
+  private readonly handleKey = (e: KeyboardEvent) => {
+    const modifier = e.ctrlKey || e.metaKey;
+
+    if (modifier && e.code === 'KeyZ') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+      return;
+    }
+    if (modifier && e.code === 'KeyY') {
+      e.preventDefault();
+      this.redo();
+      return;
+    }
+
+    // Number keys pick palette entries
+    const digit = /^Digit(\d)$/.exec(e.code);
+    if (digit) {
+      const index = (Number(digit[1]) + 9) % 10;
+      if (index < PALETTE.length) this.selected = index;
+      return;
+    }
+
+    switch (e.code) {
+      case 'ArrowUp':
+        this.scrollBy(TILE_SIZE);
+        break;
+      case 'ArrowDown':
+        this.scrollBy(-TILE_SIZE);
+        break;
+      case 'PageUp':
+        this.runAction('scrollUp');
+        break;
+      case 'PageDown':
+        this.runAction('scrollDown');
+        break;
+      case 'KeyT':
+        // Play-test from the tile under the cursor
+        if (this.hover) this.playFrom(this.hover);
+        break;
+      case 'Escape':
+        if (this.pickingStart) {
+          this.pickingStart = false;
+        } else {
+          this.runAction('exit');
+        }
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Rendering
+
+  private layout(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    // Fit the level width on screen, never enlarge
+    const levelWidth = this.grid[0].length * TILE_SIZE;
+    this.scale = Math.min(1, (width - 16) / levelWidth);
+    this.offsetX = (width - levelWidth * this.scale) / 2;
+
+    const buttons: [EditorAction, string][] = [
+      ['undo', '↶'],
+      ['redo', '↷'],
+      ['scrollUp', '▲'],
+      ['scrollDown', '▼'],
+      ['addRow', '+'],
+      ['removeRow', '−'],
+      ['play', TEXT.editor.play],
+      ['playHere', TEXT.editor.playHere],
+      ['export', TEXT.editor.export],
+      ['import', TEXT.editor.import],
+      ['exit', TEXT.editor.exit],
+    ];
+    // Symbol buttons are half as wide as labelled ones
+    const units = buttons.reduce((sum, [, label]) => sum + (label.length === 1 ? 1 : 2), 0);
+    const unit = Math.min(48, width / units);
+    let x = (width - unit * units) / 2;
+    this.toolbar = buttons.map(([action, label]) => {
+      const buttonWidth = unit * (label.length === 1 ? 1 : 2);
+      const button = { action, label, x, y: 0, width: buttonWidth, height: TOOLBAR_HEIGHT };
+      x += buttonWidth;
+      return button;
+    });
+
+    this.paletteItemWidth = Math.min(56, width / PALETTE.length);
+    this.paletteX = (width - this.paletteItemWidth * PALETTE.length) / 2;
+  }
+
+  // `time` drives entity animations, in seconds
+  render(ctx: CanvasRenderingContext2D, width: number, height: number, time: number): void {
+    this.layout(width, height);
+    this.scrollBy(0);
+
+    const gridBottom = this.gridBottom();
+    const level = this.preview;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, TOOLBAR_HEIGHT, width, gridBottom - TOOLBAR_HEIGHT);
+    ctx.clip();
+
+    // World coordinates, Y up like the game
+    ctx.translate(this.offsetX, gridBottom + this.scrollY * this.scale);
+    ctx.scale(this.scale, -this.scale);
+
+    const viewBottom = this.scrollY - TILE_SIZE;
+    const viewTop = this.scrollY + this.viewHeight() / this.scale + TILE_SIZE;
+    const isVisible = (rect: Rectangle) => rect.y + rect.height > viewBottom && rect.y < viewTop;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.fillRect(0, 0, level.levelWidth, level.levelHeight);
+    this.renderGridLines(ctx, viewBottom, viewTop);
+
+    for (const platform of level.platforms) {
+      if (isVisible(platform)) renderPlatform(ctx, platform);
+    }
+    for (const enemy of level.enemies) {
+      if (isVisible(enemy)) renderEnemy(ctx, enemy, time);
+    }
+    for (const cannon of level.cannons) {
+      if (isVisible(cannon)) renderCannon(ctx, cannon);
+    }
+    for (const collectible of level.collectibles) {
+      if (isVisible(collectible)) renderCollectible(ctx, collectible, time);
+    }
+    for (const checkpoint of level.checkpoints) {
+      if (isVisible(checkpoint)) renderCheckpoint(ctx, checkpoint);
+    }
+
+    if (level.portal) {
+      const portal = level.portal;
+      ctx.fillStyle = portal.color;
+      ctx.beginPath();
+      ctx.arc(portal.x + portal.width / 2, portal.y + portal.height / 2, portal.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    if (this.startMarker) {
+      this.startMarker.render(ctx, time);
+    }
+
+    // Cursor
+    if (this.hover) {
+      const x = this.hover.col * TILE_SIZE;
+      const y = (this.grid.length - 1 - this.hover.row) * TILE_SIZE;
+      ctx.strokeStyle = this.pickingStart ? COLORS.BUTTON : '#ffffff';
+      ctx.lineWidth = 2 / this.scale;
+      ctx.strokeRect(x, y, TILE_SIZE, TILE_SIZE);
+    }
+
+    ctx.restore();
+
+    this.renderToolbar(ctx);
+    this.renderPalette(ctx);
+  }
+
+  private renderGridLines(ctx: CanvasRenderingContext2D, viewBottom: number, viewTop: number): void {
+    const levelWidth = this.grid[0].length * TILE_SIZE;
+    const levelHeight = this.grid.length * TILE_SIZE;
+    const bottom = Math.max(0, Math.floor(viewBottom / TILE_SIZE) * TILE_SIZE);
+    const top = Math.min(levelHeight, viewTop);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 1 / this.scale;
+    ctx.beginPath();
+    for (let y = bottom; y <= top; y += TILE_SIZE) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(levelWidth, y);
+    }
+    for (let x = 0; x <= levelWidth; x += TILE_SIZE) {
+      ctx.moveTo(x, bottom);
+      ctx.lineTo(x, top);
+    }
+    ctx.stroke();
+  }
+
+  private renderToolbar(ctx: CanvasRenderingContext2D): void {
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, 0, this.width, TOOLBAR_HEIGHT);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `14px ${FONT_BODY}`;
+
+    for (const button of this.toolbar) {
+      const active = button.action === 'playHere' && this.pickingStart;
+      const disabled = (button.action === 'undo' && this.undoStack.length === 0)
+        || (button.action === 'redo' && this.redoStack.length === 0);
+
+      if (active || button.action === 'play') {
+        ctx.fillStyle = COLORS.BUTTON;
+        ctx.fillRect(button.x + 2, button.y + 4, button.width - 4, button.height - 8);
+      } else {
+        ctx.strokeStyle = COLORS.BUTTON;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(button.x + 2, button.y + 4, button.width - 4, button.height - 8);
+      }
+
+      ctx.fillStyle = disabled ? COLORS.TEXT_MUTED : active || button.action === 'play' ? COLORS.BUTTON_TEXT : COLORS.TEXT;
+      ctx.fillText(button.label, button.x + button.width / 2, button.y + button.height / 2);
+    }
+  }
+
+  private renderPalette(ctx: CanvasRenderingContext2D): void {
+    const top = this.height - PALETTE_HEIGHT;
+
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, top, this.width, PALETTE_HEIGHT);
+
+    // Status line (validation errors) or usage hint just above the palette
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, top - STATUS_HEIGHT, this.width, STATUS_HEIGHT);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `12px ${FONT_BODY}`;
+    ctx.fillStyle = this.status ? COLORS.GAMEOVER_TITLE : COLORS.TEXT_MUTED;
+    ctx.fillText(this.status || TEXT.editor.hint, this.width / 2, top - STATUS_HEIGHT / 2);
+
+    ctx.font = `${Math.min(24, this.paletteItemWidth * 0.6)}px ${FONT_BODY}`;
+    PALETTE.forEach((glyph, index) => {
+      const x = this.paletteX + index * this.paletteItemWidth;
+      if (index === this.selected) {
+        ctx.fillStyle = COLORS.BUTTON;
+        ctx.fillRect(x + 2, top + 6, this.paletteItemWidth - 4, PALETTE_HEIGHT - 12);
+      }
+      ctx.fillStyle = index === this.selected ? COLORS.BUTTON_TEXT : COLORS.TEXT;
+      ctx.fillText(glyph, x + this.paletteItemWidth / 2, top + PALETTE_HEIGHT / 2);
+    });
+  }
+}
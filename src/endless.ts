@@ -0,0 +1,169 @@
+import { LevelData, Platform, Enemy, Collectible, Cannon } from './types';
+import { parseLevel, TILE_SIZE, DEFAULT_LEVEL_META } from './level-parser';
+import { createProjectilePool } from './entities';
+import { createLevelIndex, LevelIndex } from './spatial-index';
+import { generateChunkRows, ClimbState, DIFFICULTY_CURVES, GENERATED_LEVEL_WIDTH } from './level-generator';
+
+/**
+ * Endless climb mode
+ * Streams generated chunks into a single LevelData: new chunks are appended
+ * above the player and chunks far below are discarded, so the arrays that
+ * are updated and scanned every frame stay small however high the climb goes.
+ */
+
+export const ENDLESS_CHUNK_ROWS = 20;
+
+// Distances from the player, in pixels
+const GENERATE_AHEAD = 2000;
+const DISCARD_BEHIND = 1600;
+
+// Chunks until difficulty reaches the top of the curve
+const DIFFICULTY_RAMP_CHUNKS = 20;
+
+const BEST_HEIGHT_KEY = 'jump-up.endless.best';
+
+interface StreamedChunk {
+  bottomY: number;
+  topY: number;
+  platforms: Platform[];
+  enemies: Enemy[];
+  collectibles: Collectible[];
+  cannons: Cannon[];
+}
+
+export class EndlessTower {
+  readonly level: LevelData;
+  private readonly seed: number;
+  private chunks: StreamedChunk[] = [];
+  private nextIndex = 0;
+  private exit: ClimbState = { row: 0, start: 0, end: GENERATED_LEVEL_WIDTH - 1, bouncy: false };
+
+  constructor(seed: number) {
+    this.seed = seed;
+    this.level = {
+      meta: { ...DEFAULT_LEVEL_META, name: 'Endless' },
+      platforms: [],
+      enemies: [],
+      collectibles: [],
+      cannons: [],
+      projectiles: createProjectilePool(),
+      checkpoints: [],
+      portal: null,
+      playerStart: { x: 0, y: 0 },
+      levelHeight: 0,
+      levelWidth: GENERATED_LEVEL_WIDTH * TILE_SIZE,
+      index: createLevelIndex(TILE_SIZE, { platforms: [], enemies: [], collectibles: [], cannons: [], checkpoints: [] }),
+    };
+
+    // First chunk holds the floor and player start
+    const first = this.appendChunk();
+    this.level.playerStart = first.playerStart;
+    this.update(this.level.playerStart.y);
+  }
+
+  // Bottom of the lowest chunk still loaded - falling below it is fatal
+  get floorY(): number {
+    return this.chunks.length > 0 ? this.chunks[0].bottomY : 0;
+  }
+
+  // Stream chunks around the given height (usually the player's)
+  update(focusY: number): void {
+    while (this.level.levelHeight < focusY + GENERATE_AHEAD) {
+      this.appendChunk();
+    }
+
+    let discarded = false;
+    while (this.chunks.length > 1 && this.chunks[0].topY < focusY - DISCARD_BEHIND) {
+      unindexChunk(this.level.index, this.chunks.shift()!);
+      discarded = true;
+    }
+    if (discarded) {
+      this.rebuildEntities();
+    }
+  }
+
+  private appendChunk(): LevelData {
+    const index = this.nextIndex++;
+    const difficulty = DIFFICULTY_CURVES.steady(Math.min(1, index / DIFFICULTY_RAMP_CHUNKS));
+
+    // Continue from the last platform, expressed relative to the new chunk
+    const entry = { ...this.exit, row: this.exit.row - ENDLESS_CHUNK_ROWS };
+    const { rows, exit } = generateChunkRows(this.seed, index, ENDLESS_CHUNK_ROWS, entry, difficulty);
+    this.exit = exit;
+
+    const chunkLevel = parseLevel(rows.join('\n'));
+    const bottomY = this.level.levelHeight;
+
+    // Shift chunk entities from chunk coordinates into tower coordinates
+    for (const platform of chunkLevel.platforms) platform.y += bottomY;
+    for (const collectible of chunkLevel.collectibles) collectible.y += bottomY;
+    for (const cannon of chunkLevel.cannons) cannon.y += bottomY;
+    for (const enemy of chunkLevel.enemies) {
+      enemy.y += bottomY;
+      if (enemy.startY !== undefined) enemy.startY += bottomY;
+    }
+    chunkLevel.playerStart.y += bottomY;
+
+    const chunk: StreamedChunk = {
+      bottomY,
+      topY: bottomY + chunkLevel.levelHeight,
+      platforms: chunkLevel.platforms,
+      enemies: chunkLevel.enemies,
+      collectibles: chunkLevel.collectibles,
+      cannons: chunkLevel.cannons,
+    };
+    this.chunks.push(chunk);
+    indexChunk(this.level.index, chunk);
+
+    this.level.platforms.push(...chunkLevel.platforms);
+    this.level.enemies.push(...chunkLevel.enemies);
+    this.level.collectibles.push(...chunkLevel.collectibles);
+    this.level.cannons.push(...chunkLevel.cannons);
+    this.level.levelHeight = bottomY + chunkLevel.levelHeight;
+
+    return chunkLevel;
+  }
+
+  // Keep only entities of loaded chunks (and free pooled projectiles below the floor)
+  private rebuildEntities(): void {
+    this.level.platforms = this.chunks.flatMap(chunk => chunk.platforms);
+    this.level.enemies = this.chunks.flatMap(chunk => chunk.enemies);
+    this.level.collectibles = this.chunks.flatMap(chunk => chunk.collectibles);
+    this.level.cannons = this.chunks.flatMap(chunk => chunk.cannons);
+    for (const projectile of this.level.projectiles) {
+      if (projectile.y < this.floorY) {
+        projectile.active = false;
+      }
+    }
+  }
+}
+
+function indexChunk(index: LevelIndex, chunk: StreamedChunk): void {
+  chunk.platforms.forEach(platform => index.platforms.insert(platform));
+  chunk.enemies.forEach(enemy => index.enemies.insert(enemy));
+  chunk.collectibles.forEach(collectible => index.collectibles.insert(collectible));
+  chunk.cannons.forEach(cannon => index.cannons.insert(cannon));
+}
+
+function unindexChunk(index: LevelIndex, chunk: StreamedChunk): void {
+  chunk.platforms.forEach(platform => index.platforms.remove(platform));
+  chunk.enemies.forEach(enemy => index.enemies.remove(enemy));
+  chunk.collectibles.forEach(collectible => index.collectibles.remove(collectible));
+  chunk.cannons.forEach(cannon => index.cannons.remove(cannon));
+}
+
+export function loadBestHeight(): number {
+  try {
+    return Number(localStorage.getItem(BEST_HEIGHT_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveBestHeight(height: number): void {
+  try {
+    localStorage.setItem(BEST_HEIGHT_KEY, String(height));
+  } catch {
+    // Storage can be unavailable (private mode) - the best height is then per session
+  }
+}
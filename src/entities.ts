@@ -1,19 +1,30 @@
-import { Enemy, Platform, Collectible, Cannon, Projectile, Rectangle } from './types';
-
-// Helper for rectangle intersection
-function intersects(a: Rectangle, b: Rectangle): boolean {
-  return (
-    a.x < b.x + b.width &&
-    a.x + a.width > b.x &&
-    a.y < b.y + b.height &&
-    a.y + a.height > b.y
-  );
+import { Enemy, Platform, Collectible, Cannon, Projectile, Checkpoint, Rectangle, Vector2 } from './types';
+import { intersects, sweepAABB, boxAt } from './collision';
+import { RowIndex } from './spatial-index';
+import { EventBus } from './events';
+
+// Breakable platforms fall for this long before they are gone
+const BREAKABLE_FALL_TIME = 0.6; // seconds
+const BREAKABLE_FALL_SPEED = 300; // pixels per second
+
+// Falling and broken platforms can't be stood on
+export function isPlatformSolid(platform: Platform): boolean {
+  return platform.breakState !== 'falling' && platform.breakState !== 'broken';
+}
+
+// Start the crumble timer of a breakable platform (when stood on)
+export function crumblePlatform(platform: Platform): void {
+  if (platform.type !== 'breakable' || platform.breakState !== 'solid') return;
+  platform.breakState = 'crumbling';
+  platform.breakTimer = platform.crumbleTime ?? 0.5;
 }
 
-// Update moving platforms
+// Update moving and breakable platforms
 export function updatePlatforms(platforms: Platform[], deltaTime: number): void {
   for (const platform of platforms) {
-    if (platform.type === 'moving' && platform.startX !== undefined) {
+    if (platform.type === 'breakable') {
+      updateBreakablePlatform(platform, deltaTime);
+    } else if (platform.type === 'moving' && platform.startX !== undefined) {
       const velocity = (platform.moveSpeed || 60);
       platform.currentVelocityX = velocity; // Store current velocity for player drag
       platform.x += velocity * deltaTime;
@@ -31,29 +42,58 @@ export function updatePlatforms(platforms: Platform[], deltaTime: number): void
   }
 }
 
+// Crumbling -> falling -> broken -> (optionally) solid again
+function updateBreakablePlatform(platform: Platform, deltaTime: number): void {
+  if (platform.breakState === 'solid' || platform.breakState === undefined) return;
+  
+  platform.breakTimer = (platform.breakTimer ?? 0) - deltaTime;
+  
+  if (platform.breakState === 'falling') {
+    platform.y -= BREAKABLE_FALL_SPEED * deltaTime;
+  }
+  
+  if (platform.breakTimer > 0) return;
+  
+  if (platform.breakState === 'crumbling') {
+    platform.breakState = 'falling';
+    platform.breakTimer = BREAKABLE_FALL_TIME;
+  } else if (platform.breakState === 'falling') {
+    platform.breakState = 'broken';
+    platform.breakTimer = platform.reformDelay ?? 0;
+  } else if (platform.breakState === 'broken' && platform.reformDelay) {
+    platform.breakState = 'solid';
+    platform.breakTimer = 0;
+    platform.y = platform.startY ?? platform.y;
+  }
+}
+
 // Update enemies
-export function updateEnemies(enemies: Enemy[], platforms: Platform[], deltaTime: number): void {
+// `time` is the simulation clock in seconds
+export function updateEnemies(enemies: Enemy[], platforms: RowIndex<Platform>, deltaTime: number, time: number): void {
   for (const enemy of enemies) {
     if (!enemy.alive) continue;
     
+    const startX = enemy.x;
+    const startY = enemy.y;
     switch (enemy.type) {
       case 'walker':
         updateWalkerEnemy(enemy, platforms, deltaTime);
         break;
       case 'jumper':
-        updateJumperEnemy(enemy, deltaTime);
+        updateJumperEnemy(enemy, time);
         break;
       case 'flyer':
-        updateFlyerEnemy(enemy, deltaTime);
+        updateFlyerEnemy(enemy, deltaTime, time);
         break;
       case 'static':
         // Static enemies don't move
         break;
     }
+    enemy.lastMove = { x: enemy.x - startX, y: enemy.y - startY };
   }
 }
 
-function updateWalkerEnemy(enemy: Enemy, platforms: Platform[], deltaTime: number): void {
+function updateWalkerEnemy(enemy: Enemy, platforms: RowIndex<Platform>, deltaTime: number): void {
   // Simple patrol behavior
   enemy.x += enemy.velocityX * enemy.direction * deltaTime;
   
@@ -66,8 +106,8 @@ function updateWalkerEnemy(enemy: Enemy, platforms: Platform[], deltaTime: numbe
     }
   }
   
-  // Check platform edges (don't walk off)
-  for (const platform of platforms) {
+  // Check platform edges (don't walk off) - only platforms at the enemy's feet matter
+  for (const platform of platforms.query(enemy.y - 5, enemy.y + 5)) {
     // Check if enemy is above this platform
     if (
       enemy.x + enemy.width > platform.x &&
@@ -85,15 +125,13 @@ function updateWalkerEnemy(enemy: Enemy, platforms: Platform[], deltaTime: numbe
   }
 }
 
-function updateJumperEnemy(enemy: Enemy, _deltaTime: number): void {
+function updateJumperEnemy(enemy: Enemy, time: number): void {
   // Simple bounce animation - faster
-  const time = Date.now() / 300;
-  enemy.y = (enemy.startY || enemy.y) + Math.sin(time) * 25;
+  enemy.y = (enemy.startY || enemy.y) + Math.sin(time / 0.3) * 25;
 }
 
-function updateFlyerEnemy(enemy: Enemy, deltaTime: number): void {
+function updateFlyerEnemy(enemy: Enemy, deltaTime: number, time: number): void {
   // Flyer moves horizontally and bobs up/down
-  const time = Date.now() / 400;
   
   // Horizontal patrol
   enemy.x += enemy.velocityX * enemy.direction * deltaTime;
@@ -110,54 +148,97 @@ function updateFlyerEnemy(enemy: Enemy, deltaTime: number): void {
   
   // Vertical bobbing
   if (enemy.startY !== undefined) {
-    enemy.y = enemy.startY + Math.sin(time) * 30;
+    enemy.y = enemy.startY + Math.sin(time / 0.4) * 30;
   }
 }
 
-// Update cannons and fire projectiles
-export function updateCannons(cannons: Cannon[], projectiles: Projectile[], time: number): void {
+// Tallest view (CSS pixels) the simulation is sized for. The camera always
+// keeps the player on screen, so nothing visible is further than one view
+// height from the player; on taller views the edges can show sleeping entities
+export const MAX_VIEW_HEIGHT = 2160;
+
+// Entities further than this above or below the player sleep: they neither
+// move nor fire. Measured from the player rather than the camera so the
+// simulation does not depend on the screen size
+export const ACTIVATION_DISTANCE = MAX_VIEW_HEIGHT + 160; // four tiles of margin
+
+// Projectiles live in a fixed pool per level - a cannon holds its shot while
+// every projectile is in flight, so the array never grows. Sized for all the
+// cannons a tower can have awake in the activation band
+export const PROJECTILE_POOL_SIZE = 96;
+
+// Most shots all cannons together may fire in one update
+const PROJECTILE_SPAWN_BUDGET = 4;
+
+// Projectiles this far above or below the player are despawned - past the
+// activation band, so none disappears while it can still be on screen
+const PROJECTILE_DESPAWN_DISTANCE = ACTIVATION_DISTANCE + 80;
+
+export function createProjectilePool(): Projectile[] {
+  const pool: Projectile[] = [];
+  for (let i = 0; i < PROJECTILE_POOL_SIZE; i++) {
+    pool.push({ x: 0, y: 0, width: 15, height: 15, velocityX: 0, velocityY: 0, active: false, color: '#ff6b6b' });
+  }
+  return pool;
+}
+
+// Update cannons and fire projectiles (`time` is the simulation clock in seconds)
+// Cannons that find no free projectile or exceed the spawn budget fire on a later update
+// Each shot is announced as a cannonFire event
+export function updateCannons(cannons: Cannon[], projectiles: Projectile[], time: number, events: EventBus): void {
+  let budget = PROJECTILE_SPAWN_BUDGET;
+  
   for (const cannon of cannons) {
-    const timeSinceLastFire = (time - cannon.lastFired) / 1000;
+    const timeSinceLastFire = time - cannon.lastFired;
+    if (timeSinceLastFire < cannon.fireRate) continue;
     
-    if (timeSinceLastFire >= cannon.fireRate) {
-      // Fire a new projectile - faster speed
-      const projectile: Projectile = {
-        x: cannon.direction === 1 ? cannon.x + cannon.width : cannon.x - 15,
-        y: cannon.y + cannon.height / 2 - 7,
-        width: 15,
-        height: 15,
-        velocityX: cannon.direction * 350,
-        velocityY: 0,
-        active: true,
-        color: '#ff6b6b',
-      };
-      projectiles.push(projectile);
-      cannon.lastFired = time;
-    }
+    const projectile = budget > 0 ? projectiles.find(candidate => !candidate.active) : undefined;
+    if (!projectile) continue;
+    
+    // Fire a pooled projectile - faster speed
+    projectile.x = cannon.direction === 1 ? cannon.x + cannon.width : cannon.x - 15;
+    projectile.y = cannon.y + cannon.height / 2 - 7;
+    projectile.velocityX = cannon.direction * 350;
+    projectile.velocityY = 0;
+    projectile.active = true;
+    cannon.lastFired = time;
+    budget--;
+    events.emit('cannonFire', { cannon, projectile });
   }
 }
 
-// Update projectiles
-export function updateProjectiles(projectiles: Projectile[], deltaTime: number, levelWidth: number): void {
+// Update projectiles - despawning is measured from `playerY`, the player's center height
+export function updateProjectiles(projectiles: Projectile[], deltaTime: number, levelWidth: number, playerY: number): void {
   for (const projectile of projectiles) {
     if (!projectile.active) continue;
     
     projectile.x += projectile.velocityX * deltaTime;
     projectile.y += projectile.velocityY * deltaTime;
     
-    // Deactivate if off screen
-    if (projectile.x < -100 || projectile.x > levelWidth + 100) {
+    // Deactivate once out of the level or far from the player
+    if (
+      projectile.x < -100 ||
+      projectile.x > levelWidth + 100 ||
+      Math.abs(projectile.y - playerY) > PROJECTILE_DESPAWN_DISTANCE
+    ) {
       projectile.active = false;
     }
   }
 }
 
 // Check projectile collision with player
-export function checkProjectileCollision(playerBounds: Rectangle, projectiles: Projectile[]): boolean {
+// playerBounds is where the player ended the step after moving by playerMotion;
+// projectiles moved by their velocity over the same deltaTime
+export function checkProjectileCollision(playerBounds: Rectangle, playerMotion: Vector2, projectiles: Projectile[], deltaTime: number): boolean {
+  const playerStart = boxAt(playerBounds, playerMotion, -1);
+  
   for (const projectile of projectiles) {
     if (!projectile.active) continue;
     
-    if (intersects(playerBounds, projectile)) {
+    // Sweep relative to the projectile so both movements count
+    const projectileMotion = { x: projectile.velocityX * deltaTime, y: projectile.velocityY * deltaTime };
+    const relativeMotion = { x: playerMotion.x - projectileMotion.x, y: playerMotion.y - projectileMotion.y };
+    if (sweepAABB(playerStart, relativeMotion, boxAt(projectile, projectileMotion, -1))) {
       projectile.active = false;
       return true;
     }
@@ -166,41 +247,86 @@ export function checkProjectileCollision(playerBounds: Rectangle, projectiles: P
 }
 
 // Check collision between player bounds and enemy
+// playerBounds is where the player ended the step after moving by playerMotion,
+// enemies moved by their lastMove in the same step - the earliest enemy touched
+// along the way counts
 // playerVelocityY: negative = falling down, positive = jumping up
-export function checkEnemyCollision(playerBounds: Rectangle, enemies: Enemy[], playerVelocityY: number = 0): { hit: boolean; stomped: boolean; enemy?: Enemy } {
+export function checkEnemyCollision(playerBounds: Rectangle, playerMotion: Vector2, enemies: Enemy[], playerVelocityY: number = 0): { hit: boolean; stomped: boolean; enemy?: Enemy } {
+  const playerStart = boxAt(playerBounds, playerMotion, -1);
+  let first: Enemy | undefined;
+  let firstTime = Infinity;
+  
   for (const enemy of enemies) {
     if (!enemy.alive) continue;
     
-    if (intersects(playerBounds, enemy)) {
-      // Static hazards can NEVER be stomped - always hurt player
-      if (enemy.type === 'static') {
-        return { hit: true, stomped: false, enemy };
-      }
-      
-      // Check if player is stomping (coming from above) for other enemies
-      // Player must be FALLING (velocityY < 0) to stomp
-      const playerBottom = playerBounds.y;
-      const enemyTop = enemy.y + enemy.height;
-      const playerCenterX = playerBounds.x + playerBounds.width / 2;
-      const enemyCenterX = enemy.x + enemy.width / 2;
-      
-      // Stomp ONLY if:
-      // 1. Player is falling (velocityY < 0)
-      // 2. Player's bottom is near enemy's top
-      // 3. Player is horizontally aligned with enemy
-      const isFalling = playerVelocityY < 0;
-      const isAboveEnemy = playerBottom < enemyTop + 10 && playerBottom > enemy.y;
-      const isAligned = Math.abs(playerCenterX - enemyCenterX) < enemy.width * 0.7;
-      
-      if (isFalling && isAboveEnemy && isAligned) {
-        return { hit: true, stomped: true, enemy };
-      }
-      
-      return { hit: true, stomped: false, enemy };
+    // Sweep relative to the enemy so both movements count
+    const enemyMotion = enemy.lastMove ?? { x: 0, y: 0 };
+    const relativeMotion = { x: playerMotion.x - enemyMotion.x, y: playerMotion.y - enemyMotion.y };
+    const contact = sweepAABB(playerStart, relativeMotion, boxAt(enemy, enemyMotion, -1));
+    if (contact && contact.time < firstTime) {
+      first = enemy;
+      firstTime = contact.time;
     }
   }
   
-  return { hit: false, stomped: false };
+  if (!first) {
+    return { hit: false, stomped: false };
+  }
+  const enemy = first;
+  
+  // Static hazards can NEVER be stomped - always hurt player
+  if (enemy.type === 'static') {
+    return { hit: true, stomped: false, enemy };
+  }
+  
+  // Check if player is stomping (coming from above) for other enemies
+  // Player must be FALLING (velocityY < 0) to stomp - judged where both were at contact
+  const contactBounds = boxAt(playerStart, playerMotion, firstTime);
+  // Both boxes ended the step at time 1
+  const enemyAtContact = boxAt(enemy, enemy.lastMove ?? { x: 0, y: 0 }, firstTime - 1);
+  const playerBottom = contactBounds.y;
+  const enemyTop = enemyAtContact.y + enemyAtContact.height;
+  const playerCenterX = contactBounds.x + contactBounds.width / 2;
+  const enemyCenterX = enemyAtContact.x + enemyAtContact.width / 2;
+  
+  // Stomp ONLY if:
+  // 1. Player is falling (velocityY < 0)
+  // 2. Player's bottom is near enemy's top
+  // 3. Player is horizontally aligned with enemy
+  const isFalling = playerVelocityY < 0;
+  const isAboveEnemy = playerBottom < enemyTop + 10 && playerBottom > enemyAtContact.y;
+  const isAligned = Math.abs(playerCenterX - enemyCenterX) < enemy.width * 0.7;
+  
+  if (isFalling && isAboveEnemy && isAligned) {
+    return { hit: true, stomped: true, enemy };
+  }
+  
+  return { hit: true, stomped: false, enemy };
+}
+
+// Points awarded per collectible type
+export const COLLECTIBLE_POINTS: Record<Collectible['type'], number> = {
+  coin: 10,
+  star: 50,
+  powerup: 25,
+};
+
+// Pull coins and stars within `radius` toward a point (star magnet power-up)
+export function attractCollectibles(collectibles: Collectible[], x: number, y: number, radius: number, deltaTime: number): void {
+  const speed = 400;
+  
+  for (const collectible of collectibles) {
+    if (collectible.collected || collectible.type === 'powerup') continue;
+    
+    const dx = x - (collectible.x + collectible.width / 2);
+    const dy = y - (collectible.y + collectible.height / 2);
+    const distance = Math.hypot(dx, dy);
+    if (distance > radius || distance < 1) continue;
+    
+    const step = Math.min(distance, speed * deltaTime);
+    collectible.x += (dx / distance) * step;
+    collectible.y += (dy / distance) * step;
+  }
 }
 
 // Check collectible pickup
@@ -217,8 +343,32 @@ export function checkCollectiblePickup(playerBounds: Rectangle, collectibles: Co
   return null;
 }
 
+// Check checkpoint activation - returns a checkpoint touched for the first time
+export function checkCheckpointActivation(playerBounds: Rectangle, checkpoints: Checkpoint[]): Checkpoint | null {
+  for (const checkpoint of checkpoints) {
+    if (checkpoint.active) continue;
+    
+    if (intersects(playerBounds, checkpoint)) {
+      checkpoint.active = true;
+      return checkpoint;
+    }
+  }
+  
+  return null;
+}
+
 // Render functions
 export function renderPlatform(ctx: CanvasRenderingContext2D, platform: Platform): void {
+  if (platform.breakState === 'broken') return;
+  
+  // Crumbling platforms shake, falling ones fade out
+  ctx.save();
+  if (platform.breakState === 'crumbling') {
+    ctx.translate(Math.sin((platform.breakTimer ?? 0) * 90) * 2, 0);
+  } else if (platform.breakState === 'falling') {
+    ctx.globalAlpha = Math.max(0, (platform.breakTimer ?? 0) / BREAKABLE_FALL_TIME);
+  }
+  
   ctx.fillStyle = platform.color;
   ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
   
@@ -251,9 +401,11 @@ export function renderPlatform(ctx: CanvasRenderingContext2D, platform: Platform
     ctx.lineTo(platform.x + platform.width * 0.6, platform.y + platform.height);
     ctx.stroke();
   }
+  
+  ctx.restore();
 }
 
-export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
+export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, time: number): void {
   if (!enemy.alive) return;
   
   ctx.fillStyle = enemy.color;
@@ -289,7 +441,7 @@ export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
       const hRadius = Math.min(enemy.width, enemy.height) / 2;
       const spikeCount = 8;
       const spikeLength = hRadius * 0.5;
-      const rotation = Date.now() / 800; // Slow rotation
+      const rotation = time / 0.8; // Slow rotation
       
       // Draw spikes
       ctx.fillStyle = enemy.color;
@@ -332,7 +484,7 @@ export function renderEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy): void {
       const cx = enemy.x + enemy.width / 2;
       const cy = enemy.y + enemy.height / 2;
       const wingSpan = enemy.width * 0.6;
-      const wingOffset = Math.sin(Date.now() / 100) * 5; // Flapping animation
+      const wingOffset = Math.sin(time / 0.1) * 5; // Flapping animation
       
       // Body (diamond)
       ctx.beginPath();
@@ -373,7 +525,7 @@ export function renderCollectible(ctx: CanvasRenderingContext2D, collectible: Co
   if (collectible.collected) return;
   
   // Floating animation
-  const floatOffset = Math.sin(time / 300 + collectible.x) * 5;
+  const floatOffset = Math.sin(time / 0.3 + collectible.x) * 5;
   const y = collectible.y + floatOffset;
   
   ctx.fillStyle = collectible.color;
@@ -466,6 +618,26 @@ export function renderCannon(ctx: CanvasRenderingContext2D, cannon: Cannon): voi
   ctx.fillRect(cannon.x + 3, cannon.y + 3, cannon.width - 6, cannon.height * 0.3);
 }
 
+// Render checkpoint (flag is lowered until activated)
+export function renderCheckpoint(ctx: CanvasRenderingContext2D, checkpoint: Checkpoint): void {
+  const poleX = checkpoint.x + checkpoint.width * 0.2;
+  
+  // Pole
+  ctx.fillStyle = '#bdc3c7';
+  ctx.fillRect(poleX, checkpoint.y, 3, checkpoint.height);
+  
+  // Flag
+  const flagHeight = checkpoint.height * 0.3;
+  const flagY = checkpoint.active ? checkpoint.y + checkpoint.height - flagHeight : checkpoint.y + 4;
+  ctx.fillStyle = checkpoint.active ? '#2ecc71' : checkpoint.color;
+  ctx.beginPath();
+  ctx.moveTo(poleX + 3, flagY);
+  ctx.lineTo(poleX + 3 + checkpoint.width, flagY + flagHeight / 2);
+  ctx.lineTo(poleX + 3, flagY + flagHeight);
+  ctx.closePath();
+  ctx.fill();
+}
+
 // Render projectile
 export function renderProjectile(ctx: CanvasRenderingContext2D, projectile: Projectile): void {
   if (!projectile.active) return;
@@ -0,0 +1,65 @@
+import { Cannon, Checkpoint, Collectible, Enemy, Platform, Projectile } from './types';
+
+/**
+ * Game event bus
+ * Gameplay code announces what happened - the player, the entity updaters
+ * and Game emit - and sound, stats and anything else that reacts subscribes
+ * on its own. Listeners run synchronously in subscription order, inside the
+ * simulation step that emitted the event.
+ */
+
+// Event names and their payloads
+export interface GameEvents {
+  // The player left the ground (or the air, with a double jump) by jumping
+  jump: { airJump: boolean };
+  // The player touched down on a platform - `speed` is the fall speed before landing
+  land: { platform: Platform; speed: number };
+  // A bouncy platform threw the player up
+  bounce: { platform: Platform };
+  stomp: { enemy: Enemy };
+  // An enemy or projectile hit the player - a shield takes the hit instead of a life
+  hit: { shielded: boolean; livesLeft: number };
+  // The player fell off the world and lost a life
+  death: { livesLeft: number };
+  collect: { collectible: Collectible };
+  checkpoint: { checkpoint: Checkpoint };
+  cannonFire: { cannon: Cannon; projectile: Projectile };
+  // `last` is true for the final portal of the run
+  portalEnter: { level: number; last: boolean };
+  levelStart: { level: number; endless: boolean };
+  gameOver: { won: boolean };
+}
+
+export type GameEventType = keyof GameEvents;
+
+export type GameEventListener<K extends GameEventType> = (event: GameEvents[K]) => void;
+
+export class EventBus {
+  private listeners: { [K in GameEventType]?: GameEventListener<K>[] } = {};
+
+  // Returns a function that unsubscribes the listener again
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    this.listenersOf(type).push(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    const listeners = this.listenersOf(type);
+    const index = listeners.indexOf(listener);
+    if (index !== -1) listeners.splice(index, 1);
+  }
+
+  emit<K extends GameEventType>(type: K, event: GameEvents[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...this.listenersOf(type)]) {
+      listener(event);
+    }
+  }
+
+  private listenersOf<K extends GameEventType>(type: K): GameEventListener<K>[] {
+    if (!this.listeners[type]) {
+      this.listeners[type] = [];
+    }
+    return this.listeners[type] as GameEventListener<K>[];
+  }
+}
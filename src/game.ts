@@ -1,7 +1,48 @@
-import { GameState, LevelData } from './types';
-import { Player } from './player';
+import { Cannon, GameState, LevelData, Rectangle, RunStats, Vector2 } from './types';
+import { Player, POWER_UPS } from './player';
 import { InputHandler } from './input';
-import { parseLevel, DEMO_LEVEL, TILE_SIZE } from './level-parser';
+import { parseLevel, TILE_SIZE, DEFAULT_LEVEL_META } from './level-parser';
+import { CAMPAIGN_LEVELS } from './levels';
+import { validateLevel, hasLevelErrors, formatDiagnostic, LevelDiagnostic } from './level-validator';
+import { analyzeLevel } from './level-solver';
+import { generateLevel, parseSeed, DIFFICULTY_CURVES, DifficultyCurveName } from './level-generator';
+import { EndlessTower, loadBestHeight, saveBestHeight } from './endless';
+import { LevelEditor } from './editor';
+import { RowIndex, updateMovingEntities } from './spatial-index';
+import {
+  CourseRecords,
+  SPLIT_ROWS,
+  hashLevelSources,
+  loadCourseRecords,
+  saveCourseRecords,
+  formatRunTime,
+  formatTimeDelta,
+} from './run-records';
+import { HighScoreEntry, highScoreRank, highScoreTable, loadHighScores, loadLastName } from './high-scores';
+import { NameEntryScreen, HighScoresScreen } from './high-score-screens';
+import { ScreenButton, isInsideButton } from './screen-button';
+import { decodeLevelParam, loadLevelSlot, isLevelFile } from './custom-levels';
+import {
+  Replay,
+  ReplayRecorder,
+  ReplayPlayer,
+  parseReplay,
+  isReplaySource,
+  isReplayFile,
+  exportReplay,
+  decodeReplayParam,
+} from './replay';
+import { ReplayControls } from './replay-controls';
+import {
+  Ghost,
+  GhostRecorder,
+  GhostRunner,
+  parseGhost,
+  isGhostFile,
+  loadGhost,
+  saveGhost,
+  exportGhost,
+} from './ghost';
 import {
   updatePlatforms,
   updateEnemies,
@@ -9,20 +50,35 @@ import {
   updateProjectiles,
   checkEnemyCollision,
   checkProjectileCollision,
+  checkCheckpointActivation,
+  isPlatformSolid,
+  crumblePlatform,
+  checkCollectiblePickup,
+  attractCollectibles,
+  COLLECTIBLE_POINTS,
+  ACTIVATION_DISTANCE,
   renderPlatform,
   renderEnemy,
   renderCannon,
   renderProjectile,
+  renderCheckpoint,
+  renderCollectible,
 } from './entities';
 import { TEXT, interpolate } from './config/text';
 import { COLORS } from './config/colors';
 import { SoundManager } from './assets/loader';
+import { EventBus } from './events';
 
 // Font constants
 const FONT_TITLE = "'Pilowlava', 'Comic Sans MS', cursive";
 const FONT_BODY = "'Space Mono', monospace";
 
-type ScreenState = 'intro' | 'playing' | 'gameover' | 'won';
+type ScreenState = 'intro' | 'playing' | 'transition' | 'gameover' | 'won' | 'invalid' | 'editor' | 'scores';
+type GameMode = 'campaign' | 'endless' | 'playtest';
+type IntroChoice = 'campaign' | 'endless' | 'editor' | 'scores';
+type PauseOption = 'resume' | 'restart' | 'sound' | 'quit';
+
+const PAUSE_OPTIONS: PauseOption[] = ['resume', 'restart', 'sound', 'quit'];
 
 export class Game {
   private canvas: HTMLCanvasElement;
@@ -30,14 +86,33 @@ export class Game {
   private animationId: number = 0;
   private lastTime: number = 0;
   
+  // Simulation clock in seconds - advanced by update only, so gameplay and
+  // world animations depend on simulated time rather than the wall clock
+  private simTime: number = 0;
+  
+  // Fixed simulation step - physics behave the same at any display refresh rate
+  private readonly FIXED_STEP = 1 / 120;
+  // Longest frame simulated in full; anything beyond is dropped so a slow
+  // device cannot fall further and further behind (spiral of death)
+  private readonly MAX_FRAME_TIME = 0.1;
+  private accumulator: number = 0;
+  
+  // Positions before the last step, blended with the current ones when rendering
+  private previousPositions: Map<Vector2, Vector2> = new Map();
+  private previousCameraY: number = 0;
+  
   // Screen state
   private screenState: ScreenState = 'intro';
+  private mode: GameMode = 'campaign';
   
   // Game objects
   private player!: Player;
   private level!: LevelData;
   private input: InputHandler;
   
+  // Gameplay events - sound and run stats subscribe in the constructor
+  private events: EventBus = new EventBus();
+  
   // Sound manager
   private sound: SoundManager;
   
@@ -55,17 +130,123 @@ export class Game {
     paused: false,
   };
   
-  // Visual settings
-  private readonly BG_GRADIENT_TOP = '#1a1a2e';
-  private readonly BG_GRADIENT_BOTTOM = '#0f0f1a';
+  // Campaign progress
+  private levels: string[] = CAMPAIGN_LEVELS;
+  private levelIndex: number = 0;
+  // Name shown on the intro while a custom level replaces the campaign
+  private customLevelName: string | null = null;
+  // Why the last custom level could not replace the campaign
+  private levelNotice: string | null = null;
+  private stats: RunStats = {
+    levelsCompleted: 0,
+    stomps: 0,
+    livesLost: 0,
+    score: 0,
+    collected: { coin: 0, star: 0, powerup: 0 },
+  };
+  
+  // Level transition (fade out, load next level, fade in)
+  private transitionTimer: number = 0;
+  private transitionLoaded: boolean = false;
+  private readonly TRANSITION_DURATION = 1.6; // seconds
+  
+  // Endless mode - streamed tower and heights in tiles
+  private endless: EndlessTower | null = null;
+  private climbedHeight: number = 0;
+  private bestHeight: number = loadBestHeight();
+  
+  // Intro buttons for endless mode, the editor and high scores (hit areas in CSS pixels)
+  private endlessButton: ScreenButton | null = null;
+  // Detaches the intro's input listeners when something else leaves the intro
+  private removeIntroListener: (() => void) | null = null;
+  private editorButton: ScreenButton | null = null;
+  private scoresButton: ScreenButton | null = null;
+  
+  // High scores - the name entry after a run that makes its table, the place
+  // it took once saved, and the tables shown from the intro
+  private nameEntry: NameEntryScreen | null = null;
+  private savedRank: number | null = null;
+  private highScores: HighScoresScreen;
+  // Highest point of the run in tiles, counted across campaign levels
+  private runHeight: number = 0;
+  private completedHeight: number = 0;
+  
+  // Pause menu - HUD button, highlighted option and option hit areas (CSS pixels)
+  private pauseButton: ScreenButton | null = null;
+  private pauseSelection: number = 0;
+  private pauseOptionButtons: ScreenButton[] = [];
+  private readonly PAUSE_BUTTON_SIZE = 44;
+  
+  // Level editor and the level it last sent to play-test
+  private editor: LevelEditor;
+  private playtestSource: string = '';
+  
+  // Level diagnostics shown instead of a broken level (dev builds only)
+  private diagnostics: LevelDiagnostic[] = [];
   
   // Portal height for distance calculation
   private portalY: number = 0;
   
+  // Run timer - starts with the first input and stops at the last portal (seconds)
+  private runTime: number = 0;
+  private runTimerState: 'waiting' | 'running' | 'stopped' = 'waiting';
+  private splits: number[] = [];
+  private nextSplitRow: number = SPLIT_ROWS;
+  // Last split compared with the personal best, shown on the HUD for a while
+  private splitDelta: number | null = null;
+  private splitDeltaTimer: number = 0;
+  private readonly SPLIT_DELTA_DURATION = 3; // seconds
+  // Records of the current levels - only campaign runs keep records
+  private course: string | null = null;
+  private records: CourseRecords = { personalBest: null, bestSplits: [] };
+  // Finished run against the previous personal best
+  private personalBestDelta: number | null = null;
+  private newPersonalBest: boolean = false;
+  
+  // Inputs of the current run and the replay of the last finished one
+  private recorder: ReplayRecorder | null = null;
+  private lastReplay: Replay | null = null;
+  private replayButton: ScreenButton | null = null;
+  private replaySaved: boolean = false;
+  
+  // Ghost racing: this run's samples, the ghost raced and how far ahead of it
+  // the player is at the current height (negative is ahead)
+  private ghostRecorder: GhostRecorder | null = null;
+  private ghost: GhostRunner | null = null;
+  private ghostDelta: number | null = null;
+  private ghostPlayer: Player = new Player(0, 0);
+  // Ghost file dropped on the title screen, raced instead of the own best
+  private sharedGhost: Ghost | null = null;
+  // Own best ghost offered for sharing on the win screen
+  private bestGhost: Ghost | null = null;
+  private ghostButton: ScreenButton | null = null;
+  private ghostShared: boolean = false;
+  // Why the last dropped ghost file could not be raced (shown on the intro)
+  private ghostNotice: string | null = null;
+  
+  // Why the last opened replay could not be played (shown on the intro)
+  private replayNotice: string | null = null;
+  
+  // Replay played back instead of live input, and its control bar
+  private playback: ReplayPlayer | null = null;
+  private replayControls: ReplayControls | null = null;
+  
+  // Where the player comes back after falling off (last checkpoint or level start)
+  private respawnPoint: Vector2 = { x: 0, y: 0 };
+  
   // Screen shake
   private screenShakeTimer: number = 0;
   private readonly SCREEN_SHAKE_INTENSITY = 8;
   
+  // Star magnet power-up reach
+  private readonly MAGNET_RADIUS = 160;
+  
+  // How far around the player collision queries reach - more than a step can move
+  private readonly NEARBY_MARGIN = TILE_SIZE * 2;
+  
+  // Cannons awake in the last update (see ACTIVATION_DISTANCE)
+  private awakeCannons: Set<Cannon> = new Set();
+  
   // Display dimensions (CSS pixels, not device pixels)
   private displayWidth: number = 0;
   private displayHeight: number = 0;
@@ -87,33 +268,268 @@ export class Game {
     // Create input handler
     this.input = new InputHandler();
     
+    // A shared seed replaces the campaign with a generated tower
+    this.levels = this.getLevelsFromUrl();
+    
+    // Shared or saved custom levels replace it too (decoding is async),
+    // then a shared replay plays on them
+    this.loadCustomLevelFromUrl()
+      .then(() => this.loadReplayFromUrl())
+      .catch(console.error);
+    
+    // Dropped level files go to the editor or replace the campaign, dropped
+    // replays play and dropped ghosts are raced
+    window.addEventListener('dragover', (e) => e.preventDefault());
+    window.addEventListener('drop', (e) => {
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (file && (isLevelFile(file) || isReplayFile(file) || isGhostFile(file))) {
+        file.text().then(text => {
+          if (isGhostFile(file)) {
+            this.handleDroppedGhost(text, file.name);
+          } else if (isReplaySource(text)) {
+            this.handleDroppedReplay(text, file.name);
+          } else {
+            this.handleDroppedLevel(text, file.name);
+          }
+        }).catch(console.error);
+      }
+    });
+    
+    this.editor = new LevelEditor(canvas, {
+      onPlayTest: (source) => this.startPlaytest(source),
+      onExit: () => this.closeEditor(),
+    });
+    this.highScores = new HighScoresScreen({
+      onClose: () => this.closeHighScores(),
+    });
+    
+    this.subscribeSound();
+    this.subscribeStats();
+    
+    this.setupPauseControls();
+    
     // Setup intro screen listener
     this.setupIntroListener();
   }
   
+  // Sound effects for gameplay events
+  private subscribeSound(): void {
+    const events = this.events;
+    events.on('jump', () => this.sound.play('jump'));
+    events.on('land', ({ speed }) => {
+      // Hard landings thud, soft touchdowns (stepping onto a platform) stay silent
+      if (speed > 300) {
+        this.sound.play('bounce');
+      } else if (speed > 50) {
+        this.sound.play('land');
+      }
+    });
+    events.on('bounce', () => this.sound.play('bounce'));
+    events.on('stomp', () => this.sound.play('stomp'));
+    events.on('hit', () => this.sound.play('hit'));
+    events.on('death', () => this.sound.play('hit'));
+    events.on('collect', () => this.sound.play('coin'));
+    events.on('checkpoint', () => this.sound.play('coin'));
+    events.on('portalEnter', () => this.sound.play('win'));
+    events.on('gameOver', ({ won }) => {
+      if (!won) this.sound.play('gameover');
+    });
+  }
+  
+  // Run stats for the end screens and high scores
+  private subscribeStats(): void {
+    const events = this.events;
+    events.on('stomp', () => this.stats.stomps++);
+    events.on('hit', ({ shielded }) => {
+      if (!shielded) this.stats.livesLost++;
+    });
+    events.on('death', () => this.stats.livesLost++);
+    events.on('collect', ({ collectible }) => {
+      this.stats.collected[collectible.type]++;
+      this.stats.score += COLLECTIBLE_POINTS[collectible.type];
+    });
+    events.on('portalEnter', () => this.stats.levelsCompleted++);
+  }
+  
+  // ?seed=<seed>&height=<rows>&difficulty=<gentle|steady|steep>
+  private getLevelsFromUrl(): string[] {
+    const params = new URLSearchParams(window.location.search);
+    const seed = params.get('seed');
+    if (seed === null) return CAMPAIGN_LEVELS;
+    
+    const height = Number(params.get('height')) || 60;
+    const difficulty = params.get('difficulty');
+    try {
+      return [generateLevel({
+        seed: parseSeed(seed),
+        height,
+        difficulty: difficulty && Object.hasOwn(DIFFICULTY_CURVES, difficulty) ? difficulty as DifficultyCurveName : undefined,
+      })];
+    } catch (error) {
+      console.warn(`Could not generate a tower for seed "${seed}", playing the built-in towers`, error);
+      return CAMPAIGN_LEVELS;
+    }
+  }
+  
+  // ?level=<compressed source> or ?slot=<localStorage slot>
+  private async loadCustomLevelFromUrl(): Promise<void> {
+    const params = new URLSearchParams(window.location.search);
+    const param = params.get('level');
+    const slot = params.get('slot');
+    
+    if (param !== null) {
+      let source: string;
+      try {
+        source = await decodeLevelParam(param);
+      } catch (error) {
+        console.warn('Could not decode the ?level= parameter, playing the built-in towers', error);
+        this.levelNotice = TEXT.customLevelInvalid;
+        return;
+      }
+      this.useCustomLevel(source, 'Shared level');
+    } else if (slot !== null) {
+      const source = loadLevelSlot(slot);
+      if (source === null) {
+        console.warn(`No level saved in slot "${slot}", playing the built-in towers`);
+        this.levelNotice = interpolate(TEXT.customLevelMissing, { slot });
+        return;
+      }
+      this.useCustomLevel(source, `Slot "${slot}"`);
+    }
+  }
+  
+  // ?replay=<compressed replay>
+  private async loadReplayFromUrl(): Promise<void> {
+    const param = new URLSearchParams(window.location.search).get('replay');
+    if (param === null) return;
+    
+    let replay: Replay;
+    try {
+      replay = await decodeReplayParam(param);
+    } catch (error) {
+      console.warn('Could not decode the ?replay= parameter', error);
+      this.replayNotice = TEXT.replay.invalid;
+      return;
+    }
+    if (this.screenState === 'intro') {
+      this.startPlayback(replay);
+    }
+  }
+  
+  private handleDroppedReplay(source: string, fileName: string): void {
+    if (this.screenState !== 'intro') return;
+    
+    try {
+      this.startPlayback(parseReplay(source));
+    } catch (error) {
+      console.warn(`${fileName} is not a replay this version can play`, error);
+      this.replayNotice = TEXT.replay.invalid;
+    }
+  }
+  
+  // Race a shared ghost - only on the levels it was recorded on
+  private handleDroppedGhost(source: string, fileName: string): void {
+    if (this.screenState !== 'intro') return;
+    
+    let ghost: Ghost;
+    try {
+      ghost = parseGhost(source);
+    } catch (error) {
+      console.warn(`${fileName} is not a ghost this version can race`, error);
+      this.ghostNotice = TEXT.ghost.invalid;
+      return;
+    }
+    if (ghost.course !== hashLevelSources(this.levels)) {
+      console.warn(`${fileName} was recorded on other levels - open it with the same ?seed=, ?level= or ?slot=`);
+      this.ghostNotice = TEXT.ghost.otherLevels;
+      return;
+    }
+    this.sharedGhost = ghost;
+    this.ghostNotice = null;
+  }
+  
+  private handleDroppedLevel(source: string, fileName: string): void {
+    if (this.screenState === 'editor') {
+      this.editor.importLevel(source);
+    } else if (this.screenState === 'intro') {
+      this.useCustomLevel(source, fileName);
+    }
+  }
+  
+  // Replace the campaign with a custom level
+  // A level with errors is rejected and the built-in towers stay
+  private useCustomLevel(source: string, origin: string): boolean {
+    const diagnostics = validateLevel(source);
+    if (hasLevelErrors(diagnostics)) {
+      console.warn(`${origin} has errors, playing the built-in towers`);
+      for (const diagnostic of diagnostics) {
+        console.warn(formatDiagnostic(diagnostic));
+      }
+      this.levelNotice = interpolate(TEXT.customLevelErrors, { name: origin });
+      return false;
+    }
+    
+    this.levels = [source];
+    this.customLevelName = parseLevel(source).meta.name || origin;
+    this.levelNotice = null;
+    return true;
+  }
+  
   private setupIntroListener(): void {
-    const startGame = (e: Event) => {
+    // Something else (a replay) may have left the intro during the delay
+    if (this.screenState !== 'intro') return;
+    this.removeIntroListener?.();
+    
+    const removeListeners = () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('touchstart', handleTouch);
+      window.removeEventListener('click', handleClick);
+      this.removeIntroListener = null;
+    };
+    this.removeIntroListener = removeListeners;
+    
+    const startGame = (e: Event, choice: IntroChoice) => {
       e.preventDefault();
       if (this.screenState === 'intro') {
-        this.startGame();
-        window.removeEventListener('keydown', handleKey);
-        window.removeEventListener('touchstart', handleTouch);
-        window.removeEventListener('click', handleClick);
+        if (choice === 'editor') {
+          this.openEditor();
+        } else if (choice === 'scores') {
+          this.openHighScores();
+        } else {
+          this.startGame(choice);
+        }
+        removeListeners();
       }
     };
     
+    // Taps on the secondary buttons pick their mode, anywhere else starts the campaign
+    const choiceAt = (x: number, y: number): IntroChoice => {
+      if (isInsideButton(this.endlessButton, x, y)) return 'endless';
+      if (isInsideButton(this.editorButton, x, y)) return 'editor';
+      if (isInsideButton(this.scoresButton, x, y)) return 'scores';
+      return 'campaign';
+    };
+    
     const handleKey = (e: KeyboardEvent) => {
       if (e.code === 'Space' || e.code === 'Enter') {
-        startGame(e);
+        startGame(e, 'campaign');
+      } else if (e.code === 'KeyE') {
+        startGame(e, 'endless');
+      } else if (e.code === 'KeyL') {
+        startGame(e, 'editor');
+      } else if (e.code === 'KeyH') {
+        startGame(e, 'scores');
       }
     };
     
     const handleTouch = (e: TouchEvent) => {
-      startGame(e);
+      const touch = e.touches[0];
+      startGame(e, touch ? choiceAt(touch.clientX, touch.clientY) : 'campaign');
     };
     
     const handleClick = (e: MouseEvent) => {
-      startGame(e);
+      startGame(e, choiceAt(e.clientX, e.clientY));
     };
     
     window.addEventListener('keydown', handleKey);
@@ -121,21 +537,188 @@ export class Game {
     window.addEventListener('click', handleClick);
   }
   
-  private startGame(): void {
-    // Parse level
-    this.level = parseLevel(DEMO_LEVEL);
+  // Escape/P, the HUD pause button and leaving the page pause a run;
+  // the menu is driven by arrow keys and Enter or by tapping an option
+  private setupPauseControls(): void {
+    window.addEventListener('keydown', (e) => {
+      if (this.isPaused()) {
+        this.handlePauseKey(e);
+      } else if ((e.code === 'Escape' || e.code === 'KeyP') && this.canPause()) {
+        e.preventDefault();
+        this.pause();
+      }
+    });
     
-    // Create player
-    this.player = new Player(this.level.playerStart.x, this.level.playerStart.y);
+    const handlePointer = (e: Event, x: number, y: number) => {
+      if (this.isPaused()) {
+        const index = this.pauseOptionButtons.findIndex(button => isInsideButton(button, x, y));
+        if (index !== -1) {
+          e.preventDefault();
+          this.selectPauseOption(PAUSE_OPTIONS[index]);
+        }
+      } else if (this.canPause() && isInsideButton(this.pauseButton, x, y)) {
+        e.preventDefault();
+        this.pause();
+      }
+    };
     
-    // Initialize camera
-    this.cameraY = this.player.getCenterY() - this.displayHeight * this.CAMERA_OFFSET_Y;
-    this.cameraTargetY = this.cameraY;
+    window.addEventListener('touchstart', (e) => {
+      const touch = e.touches[0];
+      if (touch) handlePointer(e, touch.clientX, touch.clientY);
+    }, { passive: false });
+    window.addEventListener('click', (e) => handlePointer(e, e.clientX, e.clientY));
     
-    // Store portal Y position for distance calculation
-    this.portalY = this.level.portal ? this.level.portal.y : this.level.levelHeight;
+    // Pause automatically when the tab is hidden or the window loses focus
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden && this.canPause()) this.pause();
+    });
+    window.addEventListener('blur', () => {
+      if (this.canPause()) this.pause();
+    });
+  }
+  
+  // Runs can be paused while playing and during the level transition
+  private inRun(): boolean {
+    return this.screenState === 'playing' || this.screenState === 'transition';
+  }
+  
+  private isPaused(): boolean {
+    return this.inRun() && this.state.paused;
+  }
+  
+  private canPause(): boolean {
+    return this.inRun() && !this.state.paused && !this.state.gameOver && !this.state.won && !this.playback;
+  }
+  
+  // update() skips paused runs, so the simulation clock and all timers freeze
+  private pause(): void {
+    this.state.paused = true;
+    this.pauseSelection = 0;
+  }
+  
+  private resume(): void {
+    this.state.paused = false;
+    // Swallow the key press that closed the menu so it doesn't also jump
+    this.input.getState();
+  }
+  
+  private handlePauseKey(e: KeyboardEvent): void {
+    const count = PAUSE_OPTIONS.length;
+    switch (e.code) {
+      case 'ArrowUp':
+      case 'KeyW':
+        this.pauseSelection = (this.pauseSelection + count - 1) % count;
+        break;
+      case 'ArrowDown':
+      case 'KeyS':
+        this.pauseSelection = (this.pauseSelection + 1) % count;
+        break;
+      case 'Enter':
+      case 'Space':
+        this.selectPauseOption(PAUSE_OPTIONS[this.pauseSelection]);
+        break;
+      case 'Escape':
+      case 'KeyP':
+        this.resume();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+  
+  private selectPauseOption(option: PauseOption): void {
+    this.pauseSelection = PAUSE_OPTIONS.indexOf(option);
+    
+    switch (option) {
+      case 'resume':
+        this.resume();
+        break;
+      case 'restart':
+        // Not restart(), which ends play-tests in the editor
+        this.state.paused = false;
+        this.startRun();
+        break;
+      case 'sound':
+        this.sound.setEnabled(!this.sound.isEnabled());
+        break;
+      case 'quit':
+        this.state.paused = false;
+        this.quitToIntro();
+        break;
+    }
+  }
+  
+  // Leave the run for the title screen (play-tests go back to the editor)
+  private quitToIntro(): void {
+    if (this.mode === 'playtest') {
+      this.openEditor();
+      return;
+    }
+    
+    this.screenState = 'intro';
+    this.input.setTouchControlsVisible(false);
+    // Same delay as the end screens, so the tap on the option doesn't also start a game
+    setTimeout(() => this.setupIntroListener(), 500);
+  }
+  
+  // Play a replay back on the levels it was recorded on
+  private startPlayback(replay: Replay): void {
+    if (replay.mode === 'campaign' && replay.course !== hashLevelSources(this.levels)) {
+      console.warn('The replay was recorded on other levels - open it with the same ?seed=, ?level= or ?slot=');
+      this.replayNotice = TEXT.replay.otherLevels;
+      return;
+    }
+    
+    // Playback leaves the intro without its own listeners noticing
+    this.removeIntroListener?.();
+    this.replayNotice = null;
+    this.playback = new ReplayPlayer(replay);
+    this.replayControls = new ReplayControls(this.playback, {
+      isActive: () => this.inRun() && !this.state.gameOver && !this.state.won,
+      onStop: () => this.stopPlayback(),
+    });
+    this.replayControls.open();
+    this.mode = replay.mode;
+    this.startRun();
+    this.input.setTouchControlsVisible(false);
+  }
+  
+  // End the replay on the title screen
+  private stopPlayback(): void {
+    this.replayControls?.close();
+    this.replayControls = null;
+    this.playback = null;
+    this.quitToIntro();
+  }
+  
+  // Download the last run's replay and copy its link
+  private saveReplay(): void {
+    if (!this.lastReplay) return;
+    exportReplay(this.lastReplay);
+    this.replaySaved = true;
+  }
+  
+  // Download the best ghost of the levels just finished
+  private shareGhost(): void {
+    if (!this.bestGhost) return;
+    exportGhost(this.bestGhost);
+    this.ghostShared = true;
+  }
+  
+  private startGame(mode: GameMode): void {
+    this.mode = mode;
+    this.startRun();
     
-    // Reset state
+    // Hide touch controls visibility during intro
+    const touchControls = document.getElementById('touch-controls');
+    if (touchControls) {
+      touchControls.style.display = 'flex';
+    }
+  }
+  
+  // Start a new run in the current mode with fresh lives and stats
+  private startRun(): void {
     this.state = {
       lives: 3,
       gameOver: false,
@@ -143,13 +726,236 @@ export class Game {
       paused: false,
     };
     
+    this.stats = {
+      levelsCompleted: 0,
+      stomps: 0,
+      livesLost: 0,
+      score: 0,
+      collected: { coin: 0, star: 0, powerup: 0 },
+    };
+    
+    this.runTime = 0;
+    this.runTimerState = 'waiting';
+    this.splits = [];
+    this.splitDelta = null;
+    this.splitDeltaTimer = 0;
+    this.personalBestDelta = null;
+    this.newPersonalBest = false;
+    // Replays don't count towards records or high scores
+    this.course = this.mode === 'campaign' && !this.playback ? hashLevelSources(this.currentLevels()) : null;
+    this.runHeight = 0;
+    this.completedHeight = 0;
+    this.savedRank = null;
+    this.records = this.course ? loadCourseRecords(this.course) : { personalBest: null, bestSplits: [] };
+    this.lastReplay = null;
+    this.replaySaved = false;
+    
+    // Campaign runs race the shared ghost or the own best and record their own
+    const ghost = this.course
+      ? (this.sharedGhost?.course === this.course ? this.sharedGhost : loadGhost(this.course))
+      : null;
+    this.ghost = ghost ? new GhostRunner(ghost) : null;
+    this.ghostRecorder = this.course ? new GhostRecorder() : null;
+    this.ghostDelta = null;
+    this.bestGhost = null;
+    this.ghostShared = false;
+    
+    // Endless towers get a fresh seed unless a replay brings its own
+    const seed = this.mode === 'endless'
+      ? this.playback?.replay.seed ?? Math.floor(Math.random() * 0x100000000)
+      : 0;
+    this.recorder = this.playback || this.mode === 'playtest'
+      ? null
+      : new ReplayRecorder(this.mode, this.mode === 'endless' ? 'endless' : hashLevelSources(this.levels), seed);
+    
+    this.endless = null;
+    if (this.mode === 'endless') {
+      this.startEndless(seed);
+    } else if (!this.loadLevel(0)) {
+      return;
+    }
+    this.state.lives = this.level.meta.lives;
     this.screenState = 'playing';
+  }
+  
+  private openEditor(): void {
+    this.screenState = 'editor';
+    this.editor.open();
     
-    // Hide touch controls visibility during intro
     const touchControls = document.getElementById('touch-controls');
     if (touchControls) {
-      touchControls.style.display = 'flex';
+      touchControls.style.display = 'none';
+    }
+  }
+  
+  private closeEditor(): void {
+    this.editor.close();
+    this.screenState = 'intro';
+    // Same delay as the end screens, so the exit tap doesn't also start a game
+    setTimeout(() => this.setupIntroListener(), 500);
+  }
+  
+  // Play the editor's level - errors stay in the editor instead of the diagnostics screen
+  private startPlaytest(source: string): void {
+    const errors = validateLevel(source).filter(diagnostic => diagnostic.severity === 'error');
+    if (errors.length > 0) {
+      this.editor.showStatus(formatDiagnostic(errors[0]));
+      return;
     }
+    
+    this.editor.close();
+    this.playtestSource = source;
+    this.startGame('playtest');
+  }
+  
+  // Level sources of the current mode
+  private currentLevels(): string[] {
+    return this.mode === 'playtest' ? [this.playtestSource] : this.levels;
+  }
+  
+  // Endless climb on a tower built from the seed
+  private startEndless(seed: number): void {
+    this.endless = new EndlessTower(seed);
+    this.level = this.endless.level;
+    this.climbedHeight = 0;
+    this.placePlayer();
+    this.events.emit('levelStart', { level: 0, endless: true });
+  }
+  
+  // Load a campaign level and place the player at its start
+  // Returns false if the level has errors and the diagnostics screen is shown
+  private loadLevel(index: number): boolean {
+    this.levelIndex = index;
+    const source = this.currentLevels()[index];
+    
+    if (import.meta.env.DEV) {
+      this.diagnostics = validateLevel(source);
+      for (const diagnostic of this.diagnostics) {
+        console.warn(`Level ${index + 1}: ${formatDiagnostic(diagnostic)}`);
+      }
+      if (hasLevelErrors(this.diagnostics)) {
+        this.screenState = 'invalid';
+        this.setupDiagnosticsListener();
+        return false;
+      }
+    }
+    
+    this.level = parseLevel(source);
+    
+    if (import.meta.env.DEV) {
+      const report = analyzeLevel(this.level);
+      if (!report.portalReachable) {
+        console.warn(`Level ${index + 1}: portal is not reachable from the player start`);
+      }
+      if (report.unreachablePlatforms.length > 0) {
+        console.warn(`Level ${index + 1}: ${report.unreachablePlatforms.length} unreachable platform(s)`, report.unreachablePlatforms);
+      }
+    }
+    
+    this.placePlayer();
+    this.events.emit('levelStart', { level: index, endless: false });
+    return true;
+  }
+  
+  // Put the player at the level start and reset the camera
+  private placePlayer(): void {
+    if (this.player) {
+      this.player.respawn(this.level.playerStart.x, this.level.playerStart.y);
+    } else {
+      this.player = new Player(this.level.playerStart.x, this.level.playerStart.y, this.events);
+    }
+    
+    this.respawnPoint = { ...this.level.playerStart };
+    this.simTime = 0;
+    this.awakeCannons.clear();
+    this.nextSplitRow = SPLIT_ROWS;
+    this.resetCamera();
+    
+    // Store portal Y position for distance calculation
+    this.portalY = this.level.portal ? this.level.portal.y : this.level.levelHeight;
+  }
+  
+  // Entities of an index in the rows around the player
+  private nearPlayer<T extends Rectangle>(index: RowIndex<T>): T[] {
+    return index.query(
+      this.player.y - this.NEARBY_MARGIN,
+      this.player.y + this.player.height + this.NEARBY_MARGIN
+    );
+  }
+  
+  // Entities of an index within the activation band around the player
+  private awake<T extends Rectangle>(index: RowIndex<T>): T[] {
+    const centerY = this.player.getCenterY();
+    return index.query(centerY - ACTIVATION_DISTANCE, centerY + ACTIVATION_DISTANCE);
+  }
+  
+  // Cannons entering the activation band restart their fire timer, so nothing
+  // is already primed to shoot the moment the player arrives
+  private wakeCannons(cannons: Cannon[]): void {
+    for (const cannon of cannons) {
+      if (!this.awakeCannons.has(cannon)) {
+        cannon.lastFired = this.simTime;
+      }
+    }
+    this.awakeCannons = new Set(cannons);
+  }
+  
+  // Center the camera on the player without smoothing or interpolation
+  private resetCamera(): void {
+    this.cameraY = this.player.getCenterY() - this.displayHeight * this.CAMERA_OFFSET_Y;
+    this.cameraTargetY = this.cameraY;
+    this.previousCameraY = this.cameraY;
+    this.previousPositions.clear();
+  }
+  
+  // Remember where the player, moving entities and camera are before a step
+  private savePreviousPositions(): void {
+    this.previousPositions.clear();
+    this.previousCameraY = this.cameraY;
+    if (!this.level || !this.player) return;
+    
+    const save = (entity: Vector2) => {
+      this.previousPositions.set(entity, { x: entity.x, y: entity.y });
+    };
+    
+    save(this.player);
+    // Sleeping entities do not move
+    for (const platform of this.awake(this.level.index.platforms)) {
+      if (platform.type === 'moving' || platform.type === 'breakable') save(platform);
+    }
+    for (const enemy of this.awake(this.level.index.enemies)) {
+      if (enemy.alive && enemy.type !== 'static') save(enemy);
+    }
+    for (const projectile of this.level.projectiles) {
+      if (projectile.active) save(projectile);
+    }
+    // Collectibles only move while the magnet pulls them
+    if (this.player.hasPowerUp('magnet')) {
+      for (const collectible of this.level.collectibles) {
+        if (!collectible.collected) save(collectible);
+      }
+    }
+  }
+  
+  // Move saved entities and the camera `alpha` of the way from their previous
+  // to their current position for rendering - returns a function undoing it
+  private applyInterpolation(alpha: number): () => void {
+    const current: [Vector2, number, number][] = [];
+    for (const [entity, previous] of this.previousPositions) {
+      current.push([entity, entity.x, entity.y]);
+      entity.x = previous.x + (entity.x - previous.x) * alpha;
+      entity.y = previous.y + (entity.y - previous.y) * alpha;
+    }
+    const cameraY = this.cameraY;
+    this.cameraY = this.previousCameraY + (cameraY - this.previousCameraY) * alpha;
+    
+    return () => {
+      for (const [entity, x, y] of current) {
+        entity.x = x;
+        entity.y = y;
+      }
+      this.cameraY = cameraY;
+    };
   }
   
   private resizeCanvas(): void {
@@ -174,20 +980,41 @@ export class Game {
   }
   
   private update(deltaTime: number): void {
+    if (this.screenState === 'transition') {
+      if (!this.state.paused) this.updateTransition(deltaTime);
+      return;
+    }
+    if (this.nameEntry) {
+      this.nameEntry.update(this.input.getState());
+      return;
+    }
     if (this.screenState !== 'playing') return;
     if (this.state.gameOver || this.state.won || this.state.paused) return;
     
-    // Get input
-    const inputState = this.input.getState();
+    // Paused playback only moves on when stepped
+    if (this.playback && !this.playback.takeStep()) return;
     
-    // Track player state before update
-    const wasOnGroundBefore = this.player.isOnGround;
-    const velocityYBefore = this.player.velocityY;
+    this.simTime += deltaTime;
+    
+    // Get input (the recorded input while a replay plays)
+    const inputState = this.playback ? this.playback.nextInput() : this.input.getState();
+    this.recorder?.record(inputState);
+    
+    // The run timer starts with the first input
+    if (this.runTimerState === 'waiting' && (inputState.left || inputState.right || inputState.jump)) {
+      this.runTimerState = 'running';
+    }
+    if (this.runTimerState === 'running') {
+      this.runTime += deltaTime;
+    }
+    if (this.splitDeltaTimer > 0) {
+      this.splitDeltaTimer -= deltaTime;
+    }
     
     // Create combined platforms list (including cannons as platforms)
     const allPlatforms = [
-      ...this.level.platforms,
-      ...this.level.cannons.map(cannon => ({
+      ...this.nearPlayer(this.level.index.platforms).filter(isPlatformSolid),
+      ...this.nearPlayer(this.level.index.cannons).map(cannon => ({
         x: cannon.x,
         y: cannon.y,
         width: cannon.width,
@@ -200,59 +1027,125 @@ export class Game {
     // Update player
     this.player.update(deltaTime, inputState, allPlatforms, this.level.levelWidth);
     
-    // Sound: Jump/Land/Bounce
-    if (!wasOnGroundBefore && this.player.isOnGround) {
-      // Just landed - play bounce if high velocity, otherwise land
-      if (velocityYBefore < -300) {
-        this.sound.play('bounce');
-      } else if (velocityYBefore < -50) {
-        this.sound.play('land');
-      }
+    // Highest point of the run (endless mode counts its climbed height)
+    this.runHeight = Math.max(
+      this.runHeight,
+      this.endless ? this.climbedHeight : this.completedHeight + Math.floor(this.player.y / TILE_SIZE)
+    );
+    
+    // Sample the ghost of this run and compare with the raced one at this height
+    if (this.runTimerState === 'running') {
+      this.ghostRecorder?.record(this.runTime, this.levelIndex, this.player, this.player.facingRight);
+      const ghostTime = this.ghost ? this.ghost.timeAtHeight(this.levelIndex, this.player.y) : null;
+      this.ghostDelta = ghostTime !== null ? this.runTime - ghostTime : null;
     }
-    if (wasOnGroundBefore && !this.player.isOnGround && this.player.velocityY > 0) {
-      // Just jumped
-      this.sound.play('jump');
+    
+    // Split at every height milestone below the portal
+    while (
+      this.runTimerState === 'running' &&
+      this.player.y >= this.nextSplitRow * TILE_SIZE &&
+      this.nextSplitRow * TILE_SIZE < this.portalY
+    ) {
+      this.recordSplit();
+      this.nextSplitRow += SPLIT_ROWS;
+    }
+    
+    // Standing on a breakable platform starts its crumble timer
+    if (this.player.currentPlatform) {
+      crumblePlatform(this.player.currentPlatform);
     }
     
-    // Update entities
-    updatePlatforms(this.level.platforms, deltaTime);
-    updateEnemies(this.level.enemies, this.level.platforms, deltaTime);
+    // Update entities within the activation band
+    const awakePlatforms = this.awake(this.level.index.platforms);
+    const awakeEnemies = this.awake(this.level.index.enemies);
+    updatePlatforms(awakePlatforms, deltaTime);
+    updateEnemies(awakeEnemies, this.level.index.platforms, deltaTime, this.simTime);
+    updateMovingEntities(this.level.index, awakePlatforms, awakeEnemies);
+    
+    // Update cannons
+    const awakeCannons = this.awake(this.level.index.cannons);
+    this.wakeCannons(awakeCannons);
+    updateCannons(awakeCannons, this.level.projectiles, this.simTime, this.events);
+    
+    // Despawn distance is measured from the player, not the camera, so the
+    // screen size can't change how a replay plays out
+    updateProjectiles(this.level.projectiles, deltaTime, this.level.levelWidth, this.player.getCenterY());
+    
+    if (this.endless) {
+      this.updateEndless();
+    }
     
-    // Update cannons (sound removed for performance)
-    updateCannons(this.level.cannons, this.level.projectiles, performance.now());
+    // Collectibles
+    if (this.player.hasPowerUp('magnet')) {
+      const centerY = this.player.getCenterY();
+      const inReach = this.level.index.collectibles.query(centerY - this.MAGNET_RADIUS, centerY + this.MAGNET_RADIUS);
+      attractCollectibles(inReach, this.player.getCenterX(), centerY, this.MAGNET_RADIUS, deltaTime);
+      inReach.forEach(collectible => this.level.index.collectibles.update(collectible));
+    }
+    const collectible = checkCollectiblePickup(this.player.getBounds(), this.nearPlayer(this.level.index.collectibles));
+    if (collectible) {
+      if (collectible.powerUp) {
+        this.player.addPowerUp(collectible.powerUp);
+      }
+      this.events.emit('collect', { collectible });
+    }
     
-    updateProjectiles(this.level.projectiles, deltaTime, this.level.levelWidth);
+    // Touching a checkpoint moves the respawn point there
+    const checkpoint = checkCheckpointActivation(this.player.getBounds(), this.nearPlayer(this.level.index.checkpoints));
+    if (checkpoint) {
+      this.respawnPoint = { x: checkpoint.x + checkpoint.width / 2, y: checkpoint.y + checkpoint.height / 2 };
+      this.events.emit('checkpoint', { checkpoint });
+    }
     
-    // Check portal collision (win condition)
+    // Check portal collision (next level, or win after the last one)
     if (this.level.portal && this.checkPortalCollision()) {
-      this.state.won = true;
-      this.screenState = 'won';
-      this.sound.play('win');
-      this.setupEndScreenListener();
+      const last = this.levelIndex >= this.currentLevels().length - 1;
+      this.events.emit('portalEnter', { level: this.levelIndex, last });
+      this.recordSplit();
+      this.completedHeight += Math.floor(this.portalY / TILE_SIZE);
+      
+      if (!last) {
+        this.screenState = 'transition';
+        this.transitionTimer = 0;
+        this.transitionLoaded = false;
+      } else {
+        this.finishRun();
+        this.state.won = true;
+        this.screenState = 'won';
+        this.events.emit('gameOver', { won: true });
+        this.endRun();
+      }
+      return;
     }
     
     // Check enemy collisions (only if not invincible)
     if (!this.player.isInvincible) {
-      const enemyHit = checkEnemyCollision(this.player.getBounds(), this.level.enemies, this.player.velocityY);
+      const enemyHit = checkEnemyCollision(
+        this.player.getBounds(),
+        this.player.lastMove,
+        this.nearPlayer(this.level.index.enemies),
+        this.player.velocityY
+      );
       if (enemyHit.hit && enemyHit.enemy) {
         if (enemyHit.stomped) {
           enemyHit.enemy.alive = false;
           this.player.velocityY = 400;
-          this.sound.play('stomp');
+          this.events.emit('stomp', { enemy: enemyHit.enemy });
         } else {
           this.playerHit();
         }
       }
       
-      if (checkProjectileCollision(this.player.getBounds(), this.level.projectiles)) {
+      if (checkProjectileCollision(this.player.getBounds(), this.player.lastMove, this.level.projectiles, deltaTime)) {
         this.playerHit();
       }
     }
     
     
-    // Check if player died
+    // Check if player fell off the world
     if (!this.player.isAlive) {
-      this.playerHit();
+      this.playerDied();
+      if (this.state.gameOver) return;
     }
     
     // Update camera
@@ -272,6 +1165,83 @@ export class Game {
     }
   }
   
+  // Take a split and compare it with the personal best (or the best split so far)
+  private recordSplit(): void {
+    const index = this.splits.length;
+    this.splits.push(this.runTime);
+    
+    const reference = this.records.personalBest?.splits[index] ?? this.records.bestSplits[index];
+    this.splitDelta = reference !== undefined ? this.runTime - reference : null;
+    this.splitDeltaTimer = this.SPLIT_DELTA_DURATION;
+    
+    const bestSplit = this.records.bestSplits[index];
+    if (this.course && (bestSplit === undefined || this.runTime < bestSplit)) {
+      this.records.bestSplits[index] = this.runTime;
+      saveCourseRecords(this.course, this.records);
+    }
+  }
+  
+  // Stop the timer at the last portal and keep a new personal best and its ghost
+  private finishRun(): void {
+    this.runTimerState = 'stopped';
+    if (!this.course) return;
+    
+    const best = this.records.personalBest;
+    this.personalBestDelta = best ? this.runTime - best.time : null;
+    this.newPersonalBest = !best || this.runTime < best.time;
+    if (this.newPersonalBest) {
+      this.records.personalBest = { time: this.runTime, splits: [...this.splits] };
+      saveCourseRecords(this.course, this.records);
+    }
+    
+    // Named after the last player for now - a name entered for this run replaces it
+    if (this.newPersonalBest && this.ghostRecorder) {
+      this.bestGhost = this.ghostRecorder.finish(this.course, loadLastName() || '???', this.runTime);
+      saveGhost(this.bestGhost);
+    } else {
+      this.bestGhost = loadGhost(this.course);
+    }
+  }
+  
+  // Stream tower chunks and track the height climbed
+  private updateEndless(): void {
+    if (!this.endless) return;
+    
+    this.endless.update(this.player.y);
+    
+    // Nothing is left below the lowest loaded chunk
+    if (this.player.y < this.endless.floorY - 100) {
+      this.player.die();
+    }
+    
+    // No checkpoints in generated towers - the last platform stood on is the
+    // respawn point (anything lower may already be discarded)
+    if (this.player.isOnGround && this.player.currentPlatform?.type === 'normal') {
+      this.respawnPoint = { x: this.player.getCenterX(), y: this.player.getCenterY() };
+    }
+    
+    const height = Math.max(0, Math.floor((this.player.y - this.level.playerStart.y) / TILE_SIZE));
+    this.climbedHeight = Math.max(this.climbedHeight, height);
+    if (this.climbedHeight > this.bestHeight && !this.playback) {
+      this.bestHeight = this.climbedHeight;
+      saveBestHeight(this.bestHeight);
+    }
+  }
+  
+  private updateTransition(deltaTime: number): void {
+    this.transitionTimer += deltaTime;
+    
+    // Swap levels while the screen is fully faded out
+    if (!this.transitionLoaded && this.transitionTimer >= this.TRANSITION_DURATION / 2) {
+      if (!this.loadLevel(this.levelIndex + 1)) return;
+      this.transitionLoaded = true;
+    }
+    
+    if (this.transitionTimer >= this.TRANSITION_DURATION) {
+      this.screenState = 'playing';
+    }
+  }
+  
   private checkPortalCollision(): boolean {
     if (!this.level.portal) return false;
     const playerBounds = this.player.getBounds();
@@ -284,23 +1254,144 @@ export class Game {
     );
   }
   
+  // An enemy or projectile costs a life and returns the player to the respawn point
   private playerHit(): void {
     if (this.player.isInvincible) return;
     
+    // A shield takes the hit instead of a life (knockback only)
+    if (this.player.consumeShield()) {
+      this.player.hit();
+      this.events.emit('hit', { shielded: true, livesLeft: this.state.lives });
+      return;
+    }
+    
     this.state.lives--;
-    this.sound.play('hit');
+    this.events.emit('hit', { shielded: false, livesLeft: this.state.lives });
     
     if (this.state.lives <= 0) {
       this.state.gameOver = true;
       this.screenState = 'gameover';
-      this.sound.play('gameover');
-      this.setupEndScreenListener();
+      this.events.emit('gameOver', { won: false });
+      this.endRun();
     } else {
-      this.player.hit();
+      this.respawnPlayer();
       this.screenShakeTimer = 0.2;
     }
   }
   
+  // Falling off costs a life and returns the player to the respawn point
+  private playerDied(): void {
+    this.state.lives--;
+    this.events.emit('death', { livesLeft: this.state.lives });
+    
+    if (this.state.lives <= 0) {
+      this.state.gameOver = true;
+      this.screenState = 'gameover';
+      this.events.emit('gameOver', { won: false });
+      this.endRun();
+      return;
+    }
+    
+    this.respawnPlayer();
+  }
+  
+  // Back to the last checkpoint (or the level start) after losing a life
+  private respawnPlayer(): void {
+    this.player.respawn(this.respawnPoint.x, this.respawnPoint.y);
+    this.player.resetInvincibility();
+    this.resetCamera();
+  }
+  
+  // The run is over - a run that makes its high-score table asks for a name
+  // before the end screen takes input
+  private endRun(): void {
+    this.lastReplay = this.recorder ? this.recorder.finish() : null;
+    this.recorder = null;
+    
+    const table = this.runScoreTable();
+    if (table) {
+      const entry: HighScoreEntry = {
+        name: '',
+        completed: this.state.won,
+        time: this.runTime,
+        height: this.runHeight,
+        score: this.stats.score,
+        date: Date.now(),
+      };
+      if (highScoreRank(loadHighScores(table), entry) !== null) {
+        this.nameEntry = new NameEntryScreen(table, entry, {
+          onSaved: (name, rank) => this.nameEntrySaved(name, rank),
+        });
+        this.nameEntry.open();
+        this.input.setKeyboardEnabled(false);
+        return;
+      }
+    }
+    this.setupEndScreenListener();
+  }
+  
+  // High-score table of the current run - play-tests and replays have none
+  private runScoreTable(): string | null {
+    if (this.playback) return null;
+    if (this.mode === 'endless') return highScoreTable(TEXT.id, 'endless');
+    return this.course ? highScoreTable(TEXT.id, this.course) : null;
+  }
+  
+  // The run's high score is stored - on to the end screen
+  private nameEntrySaved(name: string, rank: number | null): void {
+    this.savedRank = rank;
+    
+    // The new best ghost was saved before the name was known - sign it now
+    if (this.newPersonalBest && this.bestGhost) {
+      this.bestGhost.name = name;
+      saveGhost(this.bestGhost);
+    }
+    
+    this.nameEntry = null;
+    this.input.setKeyboardEnabled(true);
+    this.setupEndScreenListener();
+  }
+  
+  // High-score tables from the intro, starting with the levels loaded
+  private openHighScores(): void {
+    this.screenState = 'scores';
+    this.highScores.open(hashLevelSources(this.levels), this.customLevelName || TEXT.scores.campaign);
+  }
+  
+  private closeHighScores(): void {
+    this.screenState = 'intro';
+    // Same delay as the end screens, so the closing tap doesn't also start a game
+    setTimeout(() => this.setupIntroListener(), 500);
+  }
+  
+  // Escape, Enter, Space or a tap leave the diagnostics screen for the intro
+  // (or the editor, for a play-test)
+  private setupDiagnosticsListener(): void {
+    const leave = (e: Event) => {
+      e.preventDefault();
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('touchstart', leave);
+      window.removeEventListener('click', leave);
+      if (this.screenState === 'invalid') {
+        // A replay may have loaded the broken level
+        this.stopPlayback();
+      }
+    };
+    
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code === 'Escape' || e.code === 'Enter' || e.code === 'Space') {
+        leave(e);
+      }
+    };
+    
+    // Same delay as the end screens, so the tap that started the run doesn't also leave
+    setTimeout(() => {
+      window.addEventListener('keydown', handleKey);
+      window.addEventListener('touchstart', leave, { passive: false });
+      window.addEventListener('click', leave);
+    }, 500);
+  }
+  
   private setupEndScreenListener(): void {
     const restart = (e: Event) => {
       e.preventDefault();
@@ -313,21 +1404,45 @@ export class Game {
     const handleKey = (e: KeyboardEvent) => {
       if (e.code === 'Space' || e.code === 'Enter') {
         restart(e);
+      } else if (e.code === 'KeyR' && this.lastReplay) {
+        e.preventDefault();
+        this.saveReplay();
+      } else if (e.code === 'KeyG' && this.bestGhost) {
+        e.preventDefault();
+        this.shareGhost();
+      }
+    };
+    
+    // The share buttons save the replay or ghost, anywhere else restarts
+    const handlePointer = (e: Event, x: number, y: number) => {
+      if (this.lastReplay && isInsideButton(this.replayButton, x, y)) {
+        e.preventDefault();
+        this.saveReplay();
+      } else if (this.bestGhost && isInsideButton(this.ghostButton, x, y)) {
+        e.preventDefault();
+        this.shareGhost();
+      } else {
+        restart(e);
       }
     };
     
     const handleTouch = (e: TouchEvent) => {
-      restart(e);
+      const touch = e.touches[0];
+      if (touch) {
+        handlePointer(e, touch.clientX, touch.clientY);
+      } else {
+        restart(e);
+      }
     };
     
     const handleClick = (e: MouseEvent) => {
-      restart(e);
+      handlePointer(e, e.clientX, e.clientY);
     };
     
     // Small delay to prevent accidental restart
     setTimeout(() => {
       window.addEventListener('keydown', handleKey);
-      window.addEventListener('touchstart', handleTouch);
+      window.addEventListener('touchstart', handleTouch, { passive: false });
       window.addEventListener('click', handleClick);
     }, 500);
   }
@@ -337,10 +1452,11 @@ export class Game {
     const width = this.displayWidth;
     const height = this.displayHeight;
     
-    // Clear with gradient background
+    // Clear with gradient background (level colors once a level is loaded)
+    const meta = this.level ? this.level.meta : DEFAULT_LEVEL_META;
     const gradient = ctx.createLinearGradient(0, 0, 0, height);
-    gradient.addColorStop(0, this.BG_GRADIENT_TOP);
-    gradient.addColorStop(1, this.BG_GRADIENT_BOTTOM);
+    gradient.addColorStop(0, meta.backgroundTop);
+    gradient.addColorStop(1, meta.backgroundBottom);
     ctx.fillStyle = gradient;
     ctx.fillRect(0, 0, width, height);
     
@@ -350,6 +1466,12 @@ export class Game {
     // Render based on screen state
     if (this.screenState === 'intro') {
       this.renderIntroScreen(time);
+    } else if (this.screenState === 'invalid') {
+      this.renderDiagnostics();
+    } else if (this.screenState === 'editor') {
+      this.editor.render(ctx, width, height, time / 1000);
+    } else if (this.screenState === 'scores') {
+      this.highScores.render(ctx, width, height);
     } else {
       // Game world rendering
       ctx.save();
@@ -373,21 +1495,35 @@ export class Game {
       this.renderWalls(ctx);
       
       // Render platforms
-      for (const platform of this.level.platforms) {
+      for (const platform of this.onScreen(this.level.index.platforms)) {
         if (this.isVisible(platform.y, platform.height)) {
           renderPlatform(ctx, platform);
         }
       }
       
+      // Render checkpoints
+      for (const checkpoint of this.onScreen(this.level.index.checkpoints)) {
+        if (this.isVisible(checkpoint.y, checkpoint.height)) {
+          renderCheckpoint(ctx, checkpoint);
+        }
+      }
+      
       // Render portal
       if (this.level.portal && this.isVisible(this.level.portal.y, this.level.portal.height)) {
-        this.renderPortal(ctx, time);
+        this.renderPortal(ctx, this.simTime);
+      }
+      
+      // Render collectibles
+      for (const collectible of this.onScreen(this.level.index.collectibles)) {
+        if (!collectible.collected && this.isVisible(collectible.y, collectible.height)) {
+          renderCollectible(ctx, collectible, this.simTime);
+        }
       }
       
       // Render enemies
-      for (const enemy of this.level.enemies) {
+      for (const enemy of this.onScreen(this.level.index.enemies)) {
         if (this.isVisible(enemy.y, enemy.height)) {
-          renderEnemy(ctx, enemy);
+          renderEnemy(ctx, enemy, this.simTime);
         }
       }
       
@@ -401,14 +1537,24 @@ export class Game {
       
 
       // Render cannons
-      for (const cannon of this.level.cannons) {
+      for (const cannon of this.onScreen(this.level.index.cannons)) {
         if (this.isVisible(cannon.y, cannon.height)) {
           renderCannon(ctx, cannon);
         }
       }
       
+      // Render the raced ghost when it is on this level
+      const ghostFrame = this.ghost ? this.ghost.frameAt(this.runTime) : null;
+      if (ghostFrame && ghostFrame.level === this.levelIndex) {
+        this.ghostPlayer.x = ghostFrame.x;
+        this.ghostPlayer.y = ghostFrame.y;
+        this.ghostPlayer.facingRight = ghostFrame.facingRight;
+        ctx.globalAlpha = 0.35;
+        this.ghostPlayer.render(ctx, this.simTime);
+      }
+      
       // Render player
-      this.player.render(ctx);
+      this.player.render(ctx, this.simTime);
       
       ctx.restore();
       
@@ -422,11 +1568,17 @@ export class Game {
       // Render UI
       this.renderUI();
       
-      // Render end screens
-      if (this.screenState === 'gameover') {
+      // Render pause menu, level transition and end screens
+      if (this.isPaused()) {
+        this.renderPauseMenu();
+      } else if (this.nameEntry) {
+        this.nameEntry.render(ctx, this.displayWidth, this.displayHeight);
+      } else if (this.screenState === 'transition') {
+        this.renderTransition();
+      } else if (this.screenState === 'gameover') {
         this.renderGameOver();
       } else if (this.screenState === 'won') {
-        this.renderWinScreen();
+        this.renderCampaignComplete();
       }
     }
   }
@@ -473,6 +1625,31 @@ export class Game {
       ctx.fillText(line, x, baseY + titleLineHeight + index * subtitleLineHeight);
     });
     
+    // Notices below the subtitle: custom level replacing the campaign and
+    // shared ghost to race, or why a level, ghost or replay could not be used
+    const notices: [string, string][] = [];
+    if (this.customLevelName) {
+      notices.push([interpolate(TEXT.customLevel, { name: this.customLevelName }), COLORS.TEXT_MUTED]);
+    }
+    if (this.levelNotice) {
+      notices.push([this.levelNotice, COLORS.BEHIND]);
+    }
+    if (this.sharedGhost) {
+      const ghost = this.sharedGhost;
+      notices.push([interpolate(TEXT.ghost.loaded, { name: ghost.name, time: formatRunTime(ghost.time) }), COLORS.TEXT_MUTED]);
+    }
+    if (this.ghostNotice) {
+      notices.push([this.ghostNotice, COLORS.BEHIND]);
+    }
+    if (this.replayNotice) {
+      notices.push([this.replayNotice, COLORS.BEHIND]);
+    }
+    ctx.font = `${copySize}px ${FONT_BODY}`;
+    notices.forEach(([notice, color], index) => {
+      ctx.fillStyle = color;
+      ctx.fillText(notice, x, baseY + titleLineHeight + (subtitleLines.length + index) * subtitleLineHeight);
+    });
+    
     // Button dimensions
     const btnWidth = Math.min(280, width * 0.7);
     const btnHeight = 60;
@@ -489,11 +1666,35 @@ export class Game {
     ctx.textBaseline = 'middle';
     ctx.fillText(TEXT.startButton, x, btnY + btnHeight * 0.52);
     
+    // Smaller secondary button for endless mode
+    const endlessBtnHeight = 44;
+    const endlessBtnY = btnY + btnHeight + 12;
+    this.endlessButton = { x: btnX, y: endlessBtnY, width: btnWidth, height: endlessBtnHeight };
+    
+    ctx.strokeStyle = COLORS.BUTTON;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(btnX, endlessBtnY, btnWidth, endlessBtnHeight);
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `${buttonFontSize * 0.8}px ${FONT_BODY}`;
+    ctx.fillText(TEXT.endlessButton, x, endlessBtnY + endlessBtnHeight * 0.52);
+    
+    const editorBtnY = endlessBtnY + endlessBtnHeight + 12;
+    this.editorButton = { x: btnX, y: editorBtnY, width: btnWidth, height: endlessBtnHeight };
+    
+    ctx.strokeRect(btnX, editorBtnY, btnWidth, endlessBtnHeight);
+    ctx.fillText(TEXT.editorButton, x, editorBtnY + endlessBtnHeight * 0.52);
+    
+    const scoresBtnY = editorBtnY + endlessBtnHeight + 12;
+    this.scoresButton = { x: btnX, y: scoresBtnY, width: btnWidth, height: endlessBtnHeight };
+    
+    ctx.strokeRect(btnX, scoresBtnY, btnWidth, endlessBtnHeight);
+    ctx.fillText(TEXT.scoresButton, x, scoresBtnY + endlessBtnHeight * 0.52);
+    
     // Draw copy text (multi-line support)
     ctx.fillStyle = COLORS.TEXT;
     ctx.font = `${copySize}px ${FONT_BODY}`;
     const copyLines = TEXT.copy.split('\n');
-    const copyStartY = height * 0.65;
+    const copyStartY = Math.max(height * 0.65, scoresBtnY + endlessBtnHeight + copyLineHeight);
     copyLines.forEach((line, index) => {
       ctx.fillText(line, x, copyStartY + index * copyLineHeight);
     });
@@ -505,6 +1706,33 @@ export class Game {
     }
   }
   
+  // Dev-only list of level errors and warnings
+  private renderDiagnostics(): void {
+    const ctx = this.ctx;
+    const width = this.displayWidth;
+    const height = this.displayHeight;
+    const padding = 20;
+    const lineHeight = 20;
+    
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.GAMEOVER_TITLE;
+    ctx.font = `24px ${FONT_BODY}`;
+    ctx.fillText(interpolate(TEXT.diagnostics.title, { level: this.levelIndex + 1 }), padding, padding + 12);
+    
+    ctx.font = `14px ${FONT_BODY}`;
+    this.diagnostics.forEach((diagnostic, index) => {
+      ctx.fillStyle = diagnostic.severity === 'error' ? COLORS.GAMEOVER_TITLE : COLORS.TEXT_MUTED;
+      ctx.fillText(formatDiagnostic(diagnostic), padding, padding + 56 + index * lineHeight);
+    });
+    
+    ctx.fillStyle = COLORS.TEXT_MUTED;
+    ctx.fillText(TEXT.diagnostics.hint, padding, height - padding - 12);
+  }
+  
   private renderPortal(ctx: CanvasRenderingContext2D, time: number): void {
     const portal = this.level.portal;
     if (!portal) return;
@@ -512,10 +1740,10 @@ export class Game {
     const cx = portal.x + portal.width / 2;
     const cy = portal.y + portal.height / 2;
     const radius = portal.width / 2;
-    const rotation = time / 500;
+    const rotation = time / 0.5;
     
     // Outer glow
-    const glowSize = radius * 1.5 + Math.sin(time / 300) * 10;
+    const glowSize = radius * 1.5 + Math.sin(time / 0.3) * 10;
     const glowGradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, glowSize);
     glowGradient.addColorStop(0, 'rgba(155, 89, 182, 0.6)');
     glowGradient.addColorStop(0.5, 'rgba(142, 68, 173, 0.3)');
@@ -549,7 +1777,7 @@ export class Game {
     // Sparkles
     for (let i = 0; i < 6; i++) {
       const angle = rotation * 2 + (i / 6) * Math.PI * 2;
-      const sparkleR = radius * 0.8 + Math.sin(time / 200 + i) * 5;
+      const sparkleR = radius * 0.8 + Math.sin(time / 0.2 + i) * 5;
       const sx = cx + Math.cos(angle) * sparkleR;
       const sy = cy + Math.sin(angle) * sparkleR;
       
@@ -560,7 +1788,39 @@ export class Game {
     }
   }
   
-  private renderWinScreen(): void {
+  private renderTransition(): void {
+    const ctx = this.ctx;
+    const width = this.displayWidth;
+    const height = this.displayHeight;
+    
+    // Fade to black and back, peaking at the level swap
+    const half = this.TRANSITION_DURATION / 2;
+    const alpha = Math.max(0, 1 - Math.abs(this.transitionTimer - half) / half);
+    
+    ctx.globalAlpha = Math.min(1, alpha * 1.5);
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    
+    // Upcoming level title
+    const titleSize = Math.min(56, width * 0.12);
+    ctx.fillStyle = COLORS.WIN_TITLE;
+    ctx.font = `${titleSize}px ${FONT_TITLE}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(interpolate(TEXT.level.title, { level: this.levelIndex + (this.transitionLoaded ? 1 : 2) }), width / 2, height / 3);
+    
+    // Level name from the front matter (known once the next level is loaded)
+    if (this.transitionLoaded && this.level.meta.name) {
+      const nameSize = Math.min(24, width * 0.05);
+      ctx.fillStyle = COLORS.TEXT;
+      ctx.font = `${nameSize}px ${FONT_BODY}`;
+      ctx.fillText(this.level.meta.name, width / 2, height / 3 + titleSize);
+    }
+    
+    ctx.globalAlpha = 1;
+  }
+  
+  private renderCampaignComplete(): void {
     const ctx = this.ctx;
     const width = this.displayWidth;
     const height = this.displayHeight;
@@ -616,6 +1876,36 @@ export class Game {
     copyLines.forEach((line, index) => {
       ctx.fillText(line, x, copyStartY + index * copyLineHeight);
     });
+    
+    // Campaign summary
+    ctx.fillText(
+      interpolate(TEXT.win.stats, { levels: this.stats.levelsCompleted, stomps: this.stats.stomps }),
+      x,
+      copyStartY + (copyLines.length + 1) * copyLineHeight
+    );
+    ctx.fillText(this.getTally(), x, copyStartY + (copyLines.length + 2) * copyLineHeight);
+    
+    // Run time and how it compares with the personal best
+    const timeY = copyStartY + (copyLines.length + 3) * copyLineHeight;
+    ctx.fillText(interpolate(TEXT.win.time, { time: formatRunTime(this.runTime) }), x, timeY);
+    if (this.course) {
+      const delta = this.personalBestDelta !== null ? formatTimeDelta(this.personalBestDelta) : '';
+      const best = this.records.personalBest;
+      ctx.fillStyle = this.newPersonalBest ? COLORS.AHEAD : COLORS.BEHIND;
+      ctx.fillText(
+        this.newPersonalBest || !best
+          ? interpolate(TEXT.win.newBest, { delta }).trim()
+          : interpolate(TEXT.win.best, { time: formatRunTime(best.time), delta }),
+        x,
+        timeY + copyLineHeight
+      );
+    }
+    if (this.savedRank !== null) {
+      ctx.fillStyle = COLORS.TEXT;
+      ctx.fillText(interpolate(TEXT.scores.rank, { rank: this.savedRank }), x, timeY + copyLineHeight * 2);
+    }
+    
+    this.renderShareButtons();
   }
   
   private isVisible(y: number, height: number): boolean {
@@ -624,6 +1914,11 @@ export class Game {
     return y + height > viewBottom && y < viewTop;
   }
   
+  // Entities of an index in the rows on screen (still check isVisible for each)
+  private onScreen<T extends Rectangle>(index: RowIndex<T>): T[] {
+    return index.query(this.cameraY - 50, this.cameraY + this.displayHeight + 50);
+  }
+  
   private renderBackground(_time: number): void {
     const ctx = this.ctx;
     const width = this.displayWidth;
@@ -657,18 +1952,180 @@ export class Game {
     const ctx = this.ctx;
     const padding = 20;
     
-    // Calculate distance to portal (in tiles, counting down to 0)
-    const distanceToPortal = Math.max(0, Math.floor((this.portalY - this.player.getCenterY()) / TILE_SIZE));
-    
-    // Distance to goal
     ctx.fillStyle = COLORS.TEXT;
     ctx.font = `24px ${FONT_BODY}`;
     ctx.textAlign = 'left';
-    ctx.fillText(interpolate(TEXT.ui.distance, { height: distanceToPortal }), padding, padding + 24);
+    
+    if (this.endless) {
+      // Height climbed and best height
+      ctx.fillText(interpolate(TEXT.ui.height, { height: this.climbedHeight }), padding, padding + 24);
+      ctx.textAlign = 'right';
+      ctx.fillText(
+        interpolate(TEXT.ui.best, { height: this.bestHeight }),
+        this.displayWidth - padding - this.PAUSE_BUTTON_SIZE - 12,
+        padding + 24
+      );
+      ctx.textAlign = 'left';
+    } else {
+      // Calculate distance to portal (in tiles, counting down to 0)
+      const distanceToPortal = Math.max(0, Math.floor((this.portalY - this.player.getCenterY()) / TILE_SIZE));
+      ctx.fillText(interpolate(TEXT.ui.distance, { height: distanceToPortal }), padding, padding + 24);
+    }
     
     // Lives
     ctx.fillStyle = COLORS.LIVES;
     ctx.fillText(interpolate(TEXT.ui.lives, { lives: this.state.lives }), padding, padding + 54);
+    
+    // Score
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.fillText(interpolate(TEXT.ui.score, { score: this.stats.score }), padding, padding + 84);
+    
+    // Active power-ups with the seconds left on timed ones
+    ctx.font = `16px ${FONT_BODY}`;
+    let powerUpY = padding + 112;
+    for (const [type, remaining] of this.player.powerUps) {
+      const label = TEXT.powerUps[type];
+      ctx.fillStyle = POWER_UPS[type].color;
+      ctx.fillText(Number.isFinite(remaining) ? `${label} ${Math.ceil(remaining)}s` : label, padding, powerUpY);
+      powerUpY += 22;
+    }
+    
+    // Run timer (top center) with the last split's delta below it
+    ctx.textAlign = 'center';
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `24px ${FONT_BODY}`;
+    ctx.fillText(interpolate(TEXT.ui.time, { time: formatRunTime(this.runTime) }), this.displayWidth / 2, padding + 24);
+    if (this.splitDelta !== null && this.splitDeltaTimer > 0) {
+      ctx.fillStyle = this.splitDelta <= 0 ? COLORS.AHEAD : COLORS.BEHIND;
+      ctx.font = `18px ${FONT_BODY}`;
+      ctx.fillText(formatTimeDelta(this.splitDelta), this.displayWidth / 2, padding + 50);
+    }
+    // Ahead of or behind the ghost at the current height
+    if (this.ghostDelta !== null && this.runTimerState === 'running') {
+      ctx.fillStyle = this.ghostDelta <= 0 ? COLORS.AHEAD : COLORS.BEHIND;
+      ctx.font = `16px ${FONT_BODY}`;
+      ctx.fillText(
+        interpolate(TEXT.ghost.delta, { delta: formatTimeDelta(this.ghostDelta) }),
+        this.displayWidth / 2,
+        padding + 74
+      );
+    }
+    ctx.textAlign = 'left';
+    
+    // Replays show their control bar instead of the pause button
+    if (this.replayControls) {
+      this.pauseButton = null;
+      this.replayControls.render(ctx, this.displayWidth, this.displayHeight);
+      return;
+    }
+    
+    // Pause button (top right)
+    const size = this.PAUSE_BUTTON_SIZE;
+    const button = { x: this.displayWidth - padding - size, y: padding, width: size, height: size };
+    this.pauseButton = button;
+    ctx.fillStyle = COLORS.BUTTON;
+    ctx.fillRect(button.x, button.y, size, size);
+    ctx.fillStyle = COLORS.BUTTON_TEXT;
+    ctx.fillRect(button.x + size * 0.3, button.y + size * 0.25, size * 0.14, size * 0.5);
+    ctx.fillRect(button.x + size * 0.56, button.y + size * 0.25, size * 0.14, size * 0.5);
+  }
+  
+  // Secondary buttons at the bottom of the end screens that save the run's
+  // replay and share the best ghost, stacked upwards
+  private renderShareButtons(): void {
+    const ctx = this.ctx;
+    const width = this.displayWidth;
+    const btnWidth = Math.min(280, width * 0.7);
+    const btnHeight = 44;
+    let btnY = this.displayHeight - 24 - btnHeight;
+    
+    const drawButton = (label: string): ScreenButton => {
+      const button = { x: width / 2 - btnWidth / 2, y: btnY, width: btnWidth, height: btnHeight };
+      ctx.strokeStyle = COLORS.BUTTON;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(button.x, button.y, button.width, button.height);
+      ctx.fillStyle = COLORS.TEXT;
+      ctx.font = `${Math.min(18, width * 0.04)}px ${FONT_BODY}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, width / 2, button.y + btnHeight * 0.52);
+      btnY -= btnHeight + 12;
+      return button;
+    };
+    
+    this.replayButton = this.lastReplay
+      ? drawButton(this.replaySaved ? TEXT.replay.saved : TEXT.replay.save)
+      : null;
+    this.ghostButton = this.bestGhost
+      ? drawButton(this.ghostShared ? TEXT.ghost.shared : TEXT.ghost.share)
+      : null;
+  }
+  
+  // Dimmed game with the pause options, the selected one filled
+  private renderPauseMenu(): void {
+    const ctx = this.ctx;
+    const width = this.displayWidth;
+    const height = this.displayHeight;
+    const x = width / 2;
+    
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, width, height);
+    
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `${Math.min(56, width * 0.12)}px ${FONT_TITLE}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(TEXT.pause.title, x, height * 0.25);
+    
+    const btnWidth = Math.min(280, width * 0.7);
+    const btnHeight = 52;
+    const gap = 14;
+    const startY = height * 0.38;
+    
+    ctx.font = `${Math.min(22, width * 0.05)}px ${FONT_BODY}`;
+    ctx.lineWidth = 2;
+    this.pauseOptionButtons = PAUSE_OPTIONS.map((option, index) => {
+      const button = { x: x - btnWidth / 2, y: startY + index * (btnHeight + gap), width: btnWidth, height: btnHeight };
+      const selected = index === this.pauseSelection;
+      
+      if (selected) {
+        ctx.fillStyle = COLORS.BUTTON;
+        ctx.fillRect(button.x, button.y, btnWidth, btnHeight);
+      } else {
+        ctx.strokeStyle = COLORS.BUTTON;
+        ctx.strokeRect(button.x, button.y, btnWidth, btnHeight);
+      }
+      
+      ctx.fillStyle = selected ? COLORS.BUTTON_TEXT : COLORS.TEXT;
+      ctx.fillText(this.pauseOptionLabel(option), x, button.y + btnHeight * 0.52);
+      return button;
+    });
+    
+    ctx.textBaseline = 'alphabetic';
+  }
+  
+  private pauseOptionLabel(option: PauseOption): string {
+    switch (option) {
+      case 'resume':
+        return TEXT.pause.resume;
+      case 'restart':
+        return TEXT.pause.restart;
+      case 'sound':
+        return interpolate(TEXT.pause.sound, {
+          state: this.sound.isEnabled() ? TEXT.pause.soundOn : TEXT.pause.soundOff,
+        });
+      case 'quit':
+        return this.mode === 'playtest' ? TEXT.pause.backToEditor : TEXT.pause.quit;
+    }
+  }
+  
+  // Score and collectibles of the run, shown on the end screens
+  private getTally(): string {
+    return interpolate(TEXT.ui.tally, {
+      score: this.stats.score,
+      stars: this.stats.collected.star,
+      coins: this.stats.collected.coin,
+    });
   }
   
   private renderGameOver(): void {
@@ -716,6 +2173,16 @@ export class Game {
     ctx.font = `${buttonFontSize}px ${FONT_BODY}`;
     ctx.textBaseline = 'middle';
     ctx.fillText(TEXT.gameOver.restartButton, x, btnY + btnHeight * 0.52);
+    
+    // Run summary
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `${Math.min(18, width * 0.04)}px ${FONT_BODY}`;
+    ctx.fillText(this.getTally(), x, btnY + btnHeight + 40);
+    if (this.savedRank !== null) {
+      ctx.fillText(interpolate(TEXT.scores.rank, { rank: this.savedRank }), x, btnY + btnHeight + 70);
+    }
+    
+    this.renderShareButtons();
   }
   
   private renderWalls(ctx: CanvasRenderingContext2D): void {
@@ -723,16 +2190,20 @@ export class Game {
     const levelWidth = this.level.levelWidth;
     const levelHeight = this.level.levelHeight;
     
-    // Extend walls beyond visible area
-    const wallBottom = -100;
-    const wallTop = levelHeight + 500;
+    // Extend walls beyond visible area, but only draw the part in view
+    // (endless towers grow without limit)
+    const brickHeight = 40;
+    const levelBottom = -100;
+    // Snap to the brick grid so the pattern doesn't slide while scrolling
+    const viewBottom = levelBottom + Math.floor((this.cameraY - 100 - levelBottom) / brickHeight) * brickHeight;
+    const wallBottom = Math.max(levelBottom, viewBottom);
+    const wallTop = Math.min(levelHeight + 500, this.cameraY + this.displayHeight + 100);
     const wallHeight = wallTop - wallBottom;
     
     // Wall colors
     const wallColorDark = '#2c3e50';
     const wallColorLight = '#34495e';
     const wallEdge = '#1a252f';
-    const brickHeight = 40;
     
     // Overlap by 1 pixel into game area to prevent sub-pixel gaps
     const overlap = 1;
@@ -771,30 +2242,37 @@ export class Game {
   }
   
   private restart(): void {
-    this.state = {
-      lives: 3,
-      gameOver: false,
-      won: false,
-      paused: false,
-    };
-    
-    this.level = parseLevel(DEMO_LEVEL);
-    this.player.respawn(this.level.playerStart.x, this.level.playerStart.y);
-    
-    this.cameraY = this.player.getCenterY() - this.displayHeight * this.CAMERA_OFFSET_Y;
-    this.cameraTargetY = this.cameraY;
-    this.portalY = this.level.portal ? this.level.portal.y : this.level.levelHeight;
-    
-    this.screenState = 'playing';
+    // Play-tests end back in the editor
+    if (this.mode === 'playtest') {
+      this.openEditor();
+      return;
+    }
+    // Replays end on the title screen
+    if (this.playback) {
+      this.stopPlayback();
+      return;
+    }
+    this.startRun();
   }
   
   public start(): void {
     const gameLoop = (time: number) => {
-      const deltaTime = Math.min((time - this.lastTime) / 1000, 0.1);
+      // Fast-forwarded replays run several steps' worth of time per frame
+      const speed = this.playback ? this.playback.speed : 1;
+      this.accumulator += Math.min((time - this.lastTime) / 1000, this.MAX_FRAME_TIME) * speed;
       this.lastTime = time;
       
-      this.update(deltaTime);
+      // Run as many fixed steps as real time has passed
+      while (this.accumulator >= this.FIXED_STEP) {
+        this.savePreviousPositions();
+        this.update(this.FIXED_STEP);
+        this.accumulator -= this.FIXED_STEP;
+      }
+      
+      // Render between the last two steps by the time left over
+      const restorePositions = this.applyInterpolation(this.accumulator / this.FIXED_STEP);
       this.render(time);
+      restorePositions();
       
       this.animationId = requestAnimationFrame(gameLoop);
     };
@@ -0,0 +1,193 @@
+import { Vector2 } from './types';
+
+/**
+ * Ghost runs
+ * The player's position and facing over a whole campaign run, sampled at a
+ * fixed rate of run time. The ghost of the personal best is kept per set of
+ * levels and raced on later attempts; ghost files can be shared to race
+ * someone else's best instead.
+ */
+
+const GHOST_PREFIX = 'jump-up.ghost.';
+const GHOST_FORMAT = 'jump-up-ghost';
+export const GHOST_VERSION = 1;
+
+// Samples per second of run time
+const GHOST_SAMPLE_RATE = 60;
+
+// Numbers stored per frame: level index, x, y, facing right (0/1)
+const FRAME_SIZE = 4;
+
+export interface GhostFrame {
+  level: number; // campaign level index
+  x: number;
+  y: number;
+  facingRight: boolean;
+}
+
+export interface Ghost {
+  course: string; // hashLevelSources of the levels it ran
+  name: string;
+  time: number; // seconds
+  frames: GhostFrame[];
+}
+
+export function serializeGhost(ghost: Ghost): string {
+  const frames: number[] = [];
+  for (const frame of ghost.frames) {
+    frames.push(frame.level, frame.x, frame.y, frame.facingRight ? 1 : 0);
+  }
+  return JSON.stringify({
+    format: GHOST_FORMAT,
+    version: GHOST_VERSION,
+    course: ghost.course,
+    name: ghost.name,
+    time: ghost.time,
+    frames,
+  });
+}
+
+// Throws if the text is not a ghost this version can race
+export function parseGhost(text: string): Ghost {
+  const data = JSON.parse(text);
+  if (!data || data.format !== GHOST_FORMAT) {
+    throw new Error('Not a ghost');
+  }
+  if (data.version !== GHOST_VERSION) {
+    throw new Error(`Unsupported ghost version ${data.version}`);
+  }
+  if (typeof data.course !== 'string' || typeof data.time !== 'number' ||
+      !Array.isArray(data.frames) || data.frames.length % FRAME_SIZE !== 0) {
+    throw new Error('Incomplete ghost');
+  }
+
+  const frames: GhostFrame[] = [];
+  for (let i = 0; i < data.frames.length; i += FRAME_SIZE) {
+    frames.push({
+      level: data.frames[i],
+      x: data.frames[i + 1],
+      y: data.frames[i + 2],
+      facingRight: data.frames[i + 3] === 1,
+    });
+  }
+  return { course: data.course, name: String(data.name ?? ''), time: data.time, frames };
+}
+
+export function isGhostFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.ghost');
+}
+
+// Ghost of the personal best on a set of levels
+export function loadGhost(course: string): Ghost | null {
+  try {
+    const stored = localStorage.getItem(GHOST_PREFIX + course);
+    return stored ? parseGhost(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveGhost(ghost: Ghost): void {
+  try {
+    localStorage.setItem(GHOST_PREFIX + ghost.course, serializeGhost(ghost));
+  } catch {
+    // Storage can be unavailable (private mode) or full - the ghost then only lasts the session
+  }
+}
+
+// Download the ghost so it can be shared
+export function exportGhost(ghost: Ghost): void {
+  const blob = new Blob([serializeGhost(ghost)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `jump-up-${ghost.course}.ghost`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
+// Samples the player while a run is timed
+export class GhostRecorder {
+  private frames: GhostFrame[] = [];
+
+  // Called every step - takes the samples due up to `time`
+  record(time: number, level: number, position: Vector2, facingRight: boolean): void {
+    while (this.frames.length / GHOST_SAMPLE_RATE <= time) {
+      this.frames.push({
+        level,
+        x: Math.round(position.x),
+        y: Math.round(position.y),
+        facingRight,
+      });
+    }
+  }
+
+  finish(course: string, name: string, time: number): Ghost {
+    return { course, name, time, frames: [...this.frames] };
+  }
+}
+
+/**
+ * Plays a ghost back by run time and tells when it reached a height
+ */
+export class GhostRunner {
+  readonly ghost: Ghost;
+  // Per level: highest point reached so far at each frame (never decreasing)
+  private climbs: Map<number, { frames: number[]; heights: number[] }> = new Map();
+
+  constructor(ghost: Ghost) {
+    this.ghost = ghost;
+
+    ghost.frames.forEach((frame, index) => {
+      let climb = this.climbs.get(frame.level);
+      if (!climb) {
+        climb = { frames: [], heights: [] };
+        this.climbs.set(frame.level, climb);
+      }
+      const highest = climb.heights[climb.heights.length - 1];
+      if (highest === undefined || frame.y > highest) {
+        climb.frames.push(index);
+        climb.heights.push(frame.y);
+      }
+    });
+  }
+
+  // Ghost position at a run time, between the two nearest samples -
+  // null once the ghost has finished
+  frameAt(time: number): GhostFrame | null {
+    const position = Math.max(0, time) * GHOST_SAMPLE_RATE;
+    const index = Math.floor(position);
+    const frame = this.ghost.frames[index];
+    if (!frame) return null;
+
+    const next = this.ghost.frames[index + 1];
+    if (!next || next.level !== frame.level) return frame;
+
+    const t = position - index;
+    return {
+      level: frame.level,
+      x: frame.x + (next.x - frame.x) * t,
+      y: frame.y + (next.y - frame.y) * t,
+      facingRight: frame.facingRight,
+    };
+  }
+
+  // Run time at which the ghost first reached height `y` on a level, or
+  // null if it never got that high there
+  timeAtHeight(level: number, y: number): number | null {
+    const climb = this.climbs.get(level);
+    if (!climb || climb.heights[climb.heights.length - 1] < y) return null;
+
+    // First entry at or above the height (heights only grow)
+    let low = 0;
+    let high = climb.heights.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (climb.heights[middle] >= y) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return climb.frames[low] / GHOST_SAMPLE_RATE;
+  }
+}
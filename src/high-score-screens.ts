@@ -0,0 +1,317 @@
+import { InputState } from './types';
+import {
+  HighScoreEntry,
+  NameEntry,
+  NAME_CHARSET,
+  MAX_NAME_LENGTH,
+  highScoreRank,
+  highScoreTable,
+  insertHighScore,
+  loadHighScores,
+  saveHighScores,
+  loadLastName,
+  saveLastName,
+} from './high-scores';
+import { formatRunTime } from './run-records';
+import { ScreenButton, isInsideButton } from './screen-button';
+import { TEXT, interpolate } from './config/text';
+import { COLORS } from './config/colors';
+
+/**
+ * High-score screens
+ * The name entry shown after a run that makes its table, and the tables
+ * opened from the intro. Both draw over the whole canvas and listen for
+ * their own input while open.
+ */
+
+const FONT_TITLE = "'Pilowlava', 'Comic Sans MS', cursive";
+const FONT_BODY = "'Space Mono', monospace";
+
+export interface NameEntryCallbacks {
+  // The entry was stored under `name` - `rank` is its 1-based place in the table
+  onSaved: (name: string, rank: number | null) => void;
+}
+
+/**
+ * Name entry for a run that made its high-score table: typing, Backspace and
+ * Enter edit the name, the touch controls pick letters (left/right cycle the
+ * candidate, jump adds it) and the on-screen buttons erase and save.
+ */
+export class NameEntryScreen {
+  private readonly table: string;
+  private readonly entry: HighScoreEntry;
+  private readonly callbacks: NameEntryCallbacks;
+  private readonly nameEntry = new NameEntry(loadLastName());
+  private lastInput = { left: false, right: false };
+  private buttons: { erase: ScreenButton; save: ScreenButton } | null = null;
+
+  constructor(table: string, entry: HighScoreEntry, callbacks: NameEntryCallbacks) {
+    this.table = table;
+    this.entry = entry;
+    this.callbacks = callbacks;
+  }
+
+  open(): void {
+    window.addEventListener('keydown', this.handleKey);
+    window.addEventListener('touchstart', this.handleTouch, { passive: false });
+    window.addEventListener('click', this.handleClick);
+  }
+
+  close(): void {
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('touchstart', this.handleTouch);
+    window.removeEventListener('click', this.handleClick);
+  }
+
+  // Called every step with the game's input while the entry is open
+  update(input: InputState): void {
+    if (input.left && !this.lastInput.left) {
+      this.nameEntry.cycle(-1);
+    }
+    if (input.right && !this.lastInput.right) {
+      this.nameEntry.cycle(1);
+    }
+    if (input.jumpPressed) {
+      this.nameEntry.addCandidate();
+    }
+    this.lastInput = { left: input.left, right: input.right };
+  }
+
+  // Typed name, the candidate letter in the next slot, and erase/save buttons
+  render(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const nameEntry = this.nameEntry;
+    const x = width / 2;
+
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `${Math.min(24, width * 0.05)}px ${FONT_BODY}`;
+    ctx.fillText(TEXT.scores.enterName, x, height * 0.25);
+
+    // What the entry is ranked by
+    ctx.fillText(
+      this.entry.completed
+        ? formatRunTime(this.entry.time)
+        : interpolate(TEXT.ui.height, { height: this.entry.height }),
+      x,
+      height * 0.25 + 36
+    );
+
+    // One box per character
+    const slotSize = Math.min(40, (width - 40) / MAX_NAME_LENGTH);
+    const slotsX = x - (slotSize * MAX_NAME_LENGTH) / 2;
+    const slotsY = height * 0.42;
+    ctx.font = `${slotSize * 0.6}px ${FONT_BODY}`;
+    ctx.lineWidth = 2;
+    for (let i = 0; i < MAX_NAME_LENGTH; i++) {
+      const slotX = slotsX + i * slotSize;
+      const isCandidate = i === nameEntry.name.length;
+      ctx.strokeStyle = isCandidate ? COLORS.BUTTON : COLORS.TEXT_MUTED;
+      ctx.strokeRect(slotX + 2, slotsY, slotSize - 4, slotSize);
+
+      if (i < nameEntry.name.length) {
+        ctx.fillStyle = COLORS.TEXT;
+        ctx.fillText(nameEntry.name[i], slotX + slotSize / 2, slotsY + slotSize / 2);
+      } else if (isCandidate) {
+        const candidate = NAME_CHARSET[nameEntry.candidate];
+        ctx.fillStyle = COLORS.TEXT_MUTED;
+        ctx.fillText(candidate === ' ' ? '␣' : candidate, slotX + slotSize / 2, slotsY + slotSize / 2);
+      }
+    }
+
+    ctx.fillStyle = COLORS.TEXT_MUTED;
+    ctx.font = `${Math.min(14, width * 0.035)}px ${FONT_BODY}`;
+    ctx.fillText(TEXT.scores.nameHint, x, slotsY + slotSize + 28);
+
+    // Erase and save buttons
+    const btnWidth = Math.min(130, width * 0.35);
+    const btnHeight = 52;
+    const btnY = slotsY + slotSize + 64;
+    const erase = { x: x - btnWidth - 8, y: btnY, width: btnWidth, height: btnHeight };
+    const save = { x: x + 8, y: btnY, width: btnWidth, height: btnHeight };
+    this.buttons = { erase, save };
+
+    ctx.font = `${Math.min(22, width * 0.05)}px ${FONT_BODY}`;
+    ctx.strokeStyle = COLORS.BUTTON;
+    ctx.strokeRect(erase.x, erase.y, btnWidth, btnHeight);
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.fillText(TEXT.scores.erase, erase.x + btnWidth / 2, btnY + btnHeight * 0.52);
+    ctx.fillStyle = COLORS.BUTTON;
+    ctx.fillRect(save.x, save.y, btnWidth, btnHeight);
+    ctx.fillStyle = COLORS.BUTTON_TEXT;
+    ctx.fillText(TEXT.scores.save, save.x + btnWidth / 2, btnY + btnHeight * 0.52);
+  }
+
+  private save(): void {
+    const name = this.nameEntry.result();
+    const entry = { ...this.entry, name };
+    const entries = loadHighScores(this.table);
+    const rank = highScoreRank(entries, entry);
+    saveHighScores(this.table, insertHighScore(entries, entry));
+    saveLastName(name);
+
+    this.close();
+    this.callbacks.onSaved(name, rank);
+  }
+
+  private readonly handleKey = (e: KeyboardEvent) => {
+    if (e.code === 'Enter') {
+      this.save();
+    } else if (e.code === 'Backspace') {
+      this.nameEntry.erase();
+    } else if (!this.nameEntry.type(e.key)) {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  private handlePointer(e: Event, x: number, y: number): void {
+    if (!this.buttons) return;
+
+    if (isInsideButton(this.buttons.erase, x, y)) {
+      e.preventDefault();
+      this.nameEntry.erase();
+    } else if (isInsideButton(this.buttons.save, x, y)) {
+      e.preventDefault();
+      this.save();
+    }
+  }
+
+  private readonly handleTouch = (e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (touch) this.handlePointer(e, touch.clientX, touch.clientY);
+  };
+
+  private readonly handleClick = (e: MouseEvent) => {
+    this.handlePointer(e, e.clientX, e.clientY);
+  };
+}
+
+export interface HighScoresCallbacks {
+  onClose: () => void;
+}
+
+/**
+ * High-score tables from the intro: left/right (or a tap on the switcher)
+ * flip between the campaign and endless tables, anything else closes.
+ */
+export class HighScoresScreen {
+  private readonly callbacks: HighScoresCallbacks;
+  private tab: 'campaign' | 'endless' = 'campaign';
+  private tabButton: ScreenButton | null = null;
+  // Campaign table shown - the levels loaded and the name to show for them
+  private campaignCourse = '';
+  private campaignName = '';
+
+  constructor(callbacks: HighScoresCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  open(campaignCourse: string, campaignName: string): void {
+    this.tab = 'campaign';
+    this.campaignCourse = campaignCourse;
+    this.campaignName = campaignName;
+
+    // Same delay as the end screens, so the opening tap doesn't also close
+    setTimeout(() => {
+      window.addEventListener('keydown', this.handleKey);
+      window.addEventListener('touchstart', this.handleTouch, { passive: false });
+      window.addEventListener('click', this.handleClick);
+    }, 500);
+  }
+
+  render(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const x = width / 2;
+
+    ctx.fillStyle = COLORS.BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.GAMEOVER_TITLE;
+    ctx.font = `${Math.min(48, width * 0.1)}px ${FONT_TITLE}`;
+    ctx.fillText(TEXT.scores.title, x, height * 0.14);
+
+    // Table switcher
+    const tabLabel = this.tab === 'campaign' ? this.campaignName : TEXT.scores.endless;
+    const tabWidth = Math.min(320, width * 0.8);
+    const tabHeight = 44;
+    const tabY = height * 0.22;
+    this.tabButton = { x: x - tabWidth / 2, y: tabY, width: tabWidth, height: tabHeight };
+    ctx.strokeStyle = COLORS.BUTTON;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x - tabWidth / 2, tabY, tabWidth, tabHeight);
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `${Math.min(20, width * 0.045)}px ${FONT_BODY}`;
+    ctx.fillText(`◀ ${tabLabel} ▶`, x, tabY + tabHeight * 0.52);
+
+    const course = this.tab === 'campaign' ? this.campaignCourse : 'endless';
+    const entries = loadHighScores(highScoreTable(TEXT.id, course));
+    const rowHeight = Math.min(32, height * 0.05);
+    const rowsY = tabY + tabHeight + rowHeight * 1.2;
+
+    if (entries.length === 0) {
+      ctx.fillStyle = COLORS.TEXT_MUTED;
+      ctx.fillText(TEXT.scores.empty, x, rowsY);
+    }
+    entries.forEach((entry, index) => {
+      ctx.fillStyle = entry.completed ? COLORS.TEXT : COLORS.TEXT_MUTED;
+      const values = {
+        rank: index + 1,
+        name: entry.name,
+        time: formatRunTime(entry.time),
+        height: entry.height,
+      };
+      ctx.fillText(
+        interpolate(entry.completed ? TEXT.scores.completed : TEXT.scores.failed, values),
+        x,
+        rowsY + index * rowHeight
+      );
+    });
+
+    ctx.fillStyle = COLORS.TEXT_MUTED;
+    ctx.font = `${Math.min(14, width * 0.035)}px ${FONT_BODY}`;
+    ctx.fillText(TEXT.scores.hint, x, height - 40);
+  }
+
+  private close(e: Event): void {
+    e.preventDefault();
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('touchstart', this.handleTouch);
+    window.removeEventListener('click', this.handleClick);
+    this.callbacks.onClose();
+  }
+
+  private switchTab(e: Event): void {
+    e.preventDefault();
+    this.tab = this.tab === 'campaign' ? 'endless' : 'campaign';
+  }
+
+  private readonly handleKey = (e: KeyboardEvent) => {
+    if (['ArrowLeft', 'ArrowRight', 'KeyA', 'KeyD'].includes(e.code)) {
+      this.switchTab(e);
+    } else if (['Escape', 'Enter', 'Space', 'Backspace', 'KeyH'].includes(e.code)) {
+      this.close(e);
+    }
+  };
+
+  private handlePointer(e: Event, x: number, y: number): void {
+    if (isInsideButton(this.tabButton, x, y)) {
+      this.switchTab(e);
+    } else {
+      this.close(e);
+    }
+  }
+
+  private readonly handleTouch = (e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (touch) this.handlePointer(e, touch.clientX, touch.clientY);
+  };
+
+  private readonly handleClick = (e: MouseEvent) => {
+    this.handlePointer(e, e.clientX, e.clientY);
+  };
+}
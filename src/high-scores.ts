@@ -0,0 +1,123 @@
+/**
+ * Local high-score tables
+ * Each table holds the best runs on one set of levels for one recipient
+ * config. Completed runs rank above failed ones; completed runs are ranked
+ * by time, failed runs by the height they reached.
+ */
+
+const TABLE_PREFIX = 'jump-up.scores.';
+const LAST_NAME_KEY = 'jump-up.scores.name';
+
+export const HIGH_SCORE_LIMIT = 10;
+
+export interface HighScoreEntry {
+  name: string;
+  completed: boolean;
+  time: number; // seconds
+  height: number; // tiles
+  score: number;
+  date: number; // ms since epoch
+}
+
+// Negative when `a` ranks above `b` - earlier entries win ties
+export function compareHighScores(a: HighScoreEntry, b: HighScoreEntry): number {
+  if (a.completed !== b.completed) return a.completed ? -1 : 1;
+  const byResult = a.completed ? a.time - b.time : b.height - a.height;
+  return byResult || a.date - b.date;
+}
+
+// 1-based place the entry would take in the table, or null if it doesn't make it
+export function highScoreRank(entries: HighScoreEntry[], entry: HighScoreEntry): number | null {
+  const rank = entries.filter(other => compareHighScores(other, entry) <= 0).length + 1;
+  return rank <= HIGH_SCORE_LIMIT ? rank : null;
+}
+
+// Add an entry and cut the table to its size - returns the new table
+export function insertHighScore(entries: HighScoreEntry[], entry: HighScoreEntry): HighScoreEntry[] {
+  return [...entries, entry].sort(compareHighScores).slice(0, HIGH_SCORE_LIMIT);
+}
+
+// Storage key of a table - `recipient` is the text config id, `course` the levels played
+export function highScoreTable(recipient: string, course: string): string {
+  return `${TABLE_PREFIX}${recipient}.${course}`;
+}
+
+export function loadHighScores(table: string): HighScoreEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(table) || '[]');
+    return Array.isArray(stored) ? (stored as HighScoreEntry[]).sort(compareHighScores) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveHighScores(table: string, entries: HighScoreEntry[]): void {
+  try {
+    localStorage.setItem(table, JSON.stringify(entries));
+  } catch {
+    // Storage can be unavailable (private mode) - scores then only last the session
+  }
+}
+
+// Name entered last time, offered again for the next entry
+export function loadLastName(): string {
+  try {
+    return localStorage.getItem(LAST_NAME_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveLastName(name: string): void {
+  try {
+    localStorage.setItem(LAST_NAME_KEY, name);
+  } catch {
+    // Not remembering the name is fine
+  }
+}
+
+export const NAME_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ';
+export const MAX_NAME_LENGTH = 8;
+
+/**
+ * Name typed on the keyboard or picked letter by letter: the candidate
+ * letter is cycled with left/right and added with jump, so the touch
+ * controls can enter a name too.
+ */
+export class NameEntry {
+  name: string;
+  candidate: number = 0; // index into NAME_CHARSET
+
+  constructor(name: string = '') {
+    this.name = name.toUpperCase().slice(0, MAX_NAME_LENGTH);
+  }
+
+  get full(): boolean {
+    return this.name.length >= MAX_NAME_LENGTH;
+  }
+
+  // Add a typed character - false if it can't be part of a name
+  type(char: string): boolean {
+    const upper = char.toUpperCase();
+    if (upper.length !== 1 || !NAME_CHARSET.includes(upper) || this.full) return false;
+    this.name += upper;
+    return true;
+  }
+
+  erase(): void {
+    this.name = this.name.slice(0, -1);
+  }
+
+  cycle(step: number): void {
+    this.candidate = (this.candidate + step + NAME_CHARSET.length) % NAME_CHARSET.length;
+  }
+
+  addCandidate(): void {
+    this.type(NAME_CHARSET[this.candidate]);
+  }
+
+  // Name to store - blank names become "???"
+  result(): string {
+    return this.name.trim() || '???';
+  }
+}
@@ -10,6 +10,9 @@ export class InputHandler {
   
   private previousJumpState: boolean = false;
   
+  // While false, keys don't move the player (the keyboard is typing a name)
+  private keyboardEnabled: boolean = true;
+  
   // Touch control elements
   private dpad: HTMLElement | null = null;
   private dpadKnob: HTMLElement | null = null;
@@ -28,6 +31,8 @@ export class InputHandler {
   
   private setupKeyboardListeners(): void {
     window.addEventListener('keydown', (e) => {
+      if (!this.keyboardEnabled) return;
+      
       switch (e.code) {
         case 'ArrowLeft':
         case 'KeyA':
@@ -280,6 +285,16 @@ export class InputHandler {
     return { ...this.state };
   }
   
+  // Hand the keyboard to text entry (false) or back to movement (true)
+  setKeyboardEnabled(enabled: boolean): void {
+    this.keyboardEnabled = enabled;
+    if (!enabled) {
+      this.state.left = false;
+      this.state.right = false;
+      this.state.jump = false;
+    }
+  }
+  
   // Show/hide touch controls based on device
   setTouchControlsVisible(visible: boolean): void {
     const controls = document.getElementById('touch-controls');
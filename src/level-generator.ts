@@ -0,0 +1,302 @@
+import { parseLevel } from './level-parser';
+import { analyzeLevel } from './level-solver';
+
+/**
+ * Seeded procedural tower generator
+ * Emits ASCII rows in the TILE_TYPES vocabulary, so generated towers go
+ * through parseLevel like any hand-made level. The same seed always
+ * produces the same tower.
+ */
+
+// Maps climb progress (0 at the bottom, 1 at the top) to difficulty (0 to 1)
+export type DifficultyCurve = (progress: number) => number;
+
+export type DifficultyCurveName = 'gentle' | 'steady' | 'steep';
+
+export const DIFFICULTY_CURVES: Record<DifficultyCurveName, DifficultyCurve> = {
+  gentle: (progress) => 0.1 + progress * 0.3,
+  steady: (progress) => 0.25 + progress * 0.5,
+  steep: (progress) => 0.3 + progress * progress * 0.7,
+};
+
+export interface GeneratorOptions {
+  seed: number;
+  height: number; // rows, including floor and portal
+  difficulty?: DifficultyCurveName | DifficultyCurve;
+}
+
+// Same width as the hand-made levels
+export const GENERATED_LEVEL_WIDTH = 30;
+
+const MIN_HEIGHT = 12;
+// Taller towers take too long to generate and check on the main thread
+const MAX_HEIGHT = 400;
+// Attempts with derived seeds before giving up on a climbable layout
+const MAX_ATTEMPTS = 20;
+
+// Small, fast seeded PRNG (mulberry32) returning floats in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Turn a shared seed ("1234" or "new-year") into a numeric seed
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+  // FNV-1a hash for word seeds
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function resolveCurve(difficulty: GeneratorOptions['difficulty']): DifficultyCurve {
+  if (typeof difficulty === 'function') return difficulty;
+  return DIFFICULTY_CURVES[difficulty || 'steady'];
+}
+
+// The last platform placed, which the next one must be reachable from
+// Rows count bottom-up and may be negative for a platform in a previous chunk
+export interface ClimbState {
+  row: number;
+  start: number;
+  end: number;
+  bouncy: boolean;
+}
+
+// Grid indexed bottom-up: grid[0] is the lowest row
+function createGrid(height: number): string[][] {
+  const grid: string[][] = [];
+  for (let row = 0; row < height; row++) {
+    grid.push(new Array(GENERATED_LEVEL_WIDTH).fill('.'));
+  }
+  return grid;
+}
+
+// Rows top to bottom, as level sources list them
+function gridToRows(grid: string[][]): string[] {
+  return grid.map(row => row.join('')).reverse();
+}
+
+// Place a climbable chain of platforms with enemies, cannons and stars above
+// `from`, up to `lastRow`. Returns the last platform placed.
+function placePlatforms(
+  grid: string[][],
+  random: () => number,
+  from: ClimbState,
+  lastRow: number,
+  difficultyAt: (row: number) => number
+): ClimbState {
+  const width = GENERATED_LEVEL_WIDTH;
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const isEmpty = (row: number, col: number) => grid[row]?.[col] === '.';
+
+  let platformRow = from.row;
+  let platformStart = from.start;
+  let platformEnd = from.end;
+  let platformBouncy = from.bouncy;
+
+  while (true) {
+    // Bouncy platforms launch high enough to skip an extra row
+    const gap = randomInt(2, platformBouncy ? 4 : 3);
+    // A platform carried over from the previous chunk may sit below row 0
+    const row = Math.max(0, platformRow + gap);
+    if (row > lastRow) break;
+
+    const difficulty = Math.max(0, Math.min(1, difficultyAt(row)));
+
+    // Narrower and more special platforms as difficulty rises
+    const roll = random();
+    let glyph = '▓';
+    if (roll < 0.12 + difficulty * 0.08) {
+      glyph = '○';
+    } else if (roll < 0.16 + difficulty * 0.16) {
+      glyph = '~';
+    }
+
+    const platformWidth = glyph === '~'
+      ? randomInt(3, 4)
+      : Math.max(3, Math.round(8 - difficulty * 5) + randomInt(-1, 1));
+    // Moving platforms need room for their travel range
+    const travel = glyph === '~' ? 3 : 0;
+
+    // Horizontal gap to the previous platform stays within a safe jump
+    const maxGap = 3;
+    const minStart = Math.max(1, platformStart - platformWidth - maxGap);
+    const maxStart = Math.min(width - 1 - platformWidth - travel, platformEnd + maxGap);
+    const start = randomInt(Math.min(minStart, maxStart), maxStart);
+    const end = start + platformWidth - 1;
+
+    for (let col = start; col <= end; col++) {
+      grid[row][col] = glyph;
+    }
+
+    // Optional side ledge on the other half of the tower
+    if (random() < 0.35) {
+      const ledgeWidth = randomInt(3, 5);
+      const ledgeStart = start > width / 2 ? randomInt(1, 3) : width - 1 - ledgeWidth - randomInt(0, 2);
+      const ledgeEnd = ledgeStart + ledgeWidth - 1;
+      if (ledgeEnd < start - 1 || ledgeStart > end + 1 + travel) {
+        for (let col = ledgeStart; col <= ledgeEnd; col++) {
+          grid[row][col] = '▓';
+        }
+      }
+    }
+
+    const above = row + 1;
+
+    // Walkers patrol wide normal platforms
+    if (glyph === '▓' && platformWidth >= 5 && random() < difficulty * 0.5) {
+      grid[above][start + Math.floor(platformWidth / 2)] = 'W';
+    } else if (glyph === '▓' && platformWidth >= 4 && random() < difficulty * 0.4) {
+      // Static hazards sit on an edge, never in the middle
+      grid[above][random() < 0.5 ? start : end] = 'S';
+    }
+
+    // Cannons on the walls fire across the row above the platform
+    if (random() < difficulty * 0.35) {
+      const fromLeft = random() < 0.5;
+      const col = fromLeft ? 1 : width - 2;
+      if (isEmpty(above, col) && isEmpty(above, col + (fromLeft ? 1 : -1))) {
+        grid[above][col] = fromLeft ? '>' : '<';
+      }
+    }
+
+    // Flyers in the empty row of a wide gap
+    if (gap >= 3 && row >= 1 && random() < difficulty * 0.3) {
+      const col = randomInt(4, width - 5);
+      if (isEmpty(row - 1, col)) {
+        grid[row - 1][col] = 'F';
+      }
+    }
+
+    // Stars reward the riskier routes
+    if (random() < 0.25) {
+      const col = randomInt(start, end);
+      if (isEmpty(above, col)) {
+        grid[above][col] = '*';
+      }
+    }
+
+    platformRow = row;
+    platformStart = start;
+    platformEnd = end;
+    platformBouncy = glyph === '○';
+  }
+
+  return { row: platformRow, start: platformStart, end: platformEnd, bouncy: platformBouncy };
+}
+
+// Generate tower rows (top to bottom) for one attempt
+function generateRows(random: () => number, height: number, curve: DifficultyCurve): string[] {
+  const width = GENERATED_LEVEL_WIDTH;
+  const grid = createGrid(height);
+
+  // Floor and start
+  grid[0].fill('▓');
+  grid[1][1] = 'P';
+
+  // Leave room for the portal (2 tiles) plus headroom at the top
+  const last = placePlatforms(
+    grid,
+    random,
+    { row: 0, start: 0, end: width - 1, bouncy: false },
+    height - 5,
+    row => curve(row / height)
+  );
+
+  // Portal just above the last platform
+  const portalCol = Math.min(width - 3, Math.max(1, last.start + Math.floor((last.end - last.start) / 2)));
+  grid[last.row + 2][portalCol] = 'O';
+
+  return gridToRows(grid);
+}
+
+// Plain staircase of wide, overlapping platforms a gap apart that any jump
+// clears - the fallback when no generated layout was climbable
+function generateStaircaseRows(height: number): string[] {
+  const width = GENERATED_LEVEL_WIDTH;
+  const grid = createGrid(height);
+  grid[0].fill('▓');
+  grid[1][1] = 'P';
+
+  let lastRow = 0;
+  for (let row = 3, step = 0; row <= height - 5; row += 3, step++) {
+    const start = step % 2 === 0 ? 0 : width / 3;
+    for (let col = start; col < start + (width * 2) / 3; col++) {
+      grid[row][col] = '▓';
+    }
+    lastRow = row;
+  }
+
+  grid[lastRow + 2][Math.floor(width / 2)] = 'O';
+  return gridToRows(grid);
+}
+
+function isClimbable(rows: string[]): boolean {
+  return analyzeLevel(parseLevel(rows.join('\n'))).portalReachable;
+}
+
+// Generate a climbable tower as ASCII rows (top to bottom)
+// Throws if not even the fallback staircase can be climbed
+export function generateLevelRows(options: GeneratorOptions): string[] {
+  const height = Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, Math.floor(options.height)));
+  const curve = resolveCurve(options.difficulty);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    // Derive a new deterministic seed for each retry
+    const random = createRandom(options.seed + attempt * 0x9e3779b9);
+    const rows = generateRows(random, height, curve);
+    if (isClimbable(rows)) {
+      return rows;
+    }
+  }
+
+  const rows = generateStaircaseRows(height);
+  if (!isClimbable(rows)) {
+    throw new Error(`No climbable tower of height ${height} for seed ${options.seed}`);
+  }
+  return rows;
+}
+
+// Generate one chunk of an endless tower. The first chunk (index 0) starts
+// with the floor and player start, later ones continue from `entry`, given
+// relative to the new chunk's bottom row.
+export function generateChunkRows(
+  seed: number,
+  index: number,
+  height: number,
+  entry: ClimbState,
+  difficulty: number
+): { rows: string[]; exit: ClimbState } {
+  const random = createRandom(seed + index * 0x85ebca6b);
+  const grid = createGrid(height);
+  let from = entry;
+
+  if (index === 0) {
+    grid[0].fill('▓');
+    grid[1][1] = 'P';
+    from = { row: 0, start: 0, end: GENERATED_LEVEL_WIDTH - 1, bouncy: false };
+  }
+
+  // Keep the top row free for whatever sits above the last platform
+  const exit = placePlatforms(grid, random, from, height - 2, () => difficulty);
+  return { rows: gridToRows(grid), exit };
+}
+
+// Generate a complete level source with a front-matter header
+export function generateLevel(options: GeneratorOptions): string {
+  const rows = generateLevelRows(options);
+  return ['---', `name: Seed ${options.seed}`, '---', ...rows].join('\n');
+}
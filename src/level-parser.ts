@@ -1,15 +1,21 @@
 import { 
   LevelData, 
+  LevelMeta,
   Platform, 
   Enemy, 
   Collectible, 
   Cannon,
   Projectile,
   Portal,
+  Checkpoint,
   Vector2, 
   TILE_TYPES, 
-  TileType 
+  TileType,
+  POWER_UP_TYPES,
+  PowerUpType,
 } from './types';
+import { createProjectilePool } from './entities';
+import { createLevelIndex } from './spatial-index';
 
 // Each tile is this many pixels
 export const TILE_SIZE = 40;
@@ -35,13 +41,172 @@ const COLLECTIBLE_COLORS = {
   'powerup': '#00ffff',
 };
 
+// Defaults for everything the front-matter block can set
+export const DEFAULT_LEVEL_META: LevelMeta = {
+  name: '',
+  author: '',
+  lives: 3,
+  backgroundTop: '#1a1a2e',
+  backgroundBottom: '#0f0f1a',
+  cannonFireRate: 1.5, // Fire every 1.5 seconds - faster!
+  movingRange: 3,
+  movingSpeed: 80,
+  walkerSpeed: 120, // Faster walker
+  walkerPatrol: 4,
+  flyerSpeed: 100,
+  flyerPatrol: 3,
+  crumbleTime: 0.5,
+  reformDelay: 3,
+  powerUp: 'shield',
+};
+
+export interface LevelHeaderEntry {
+  key: string;
+  value: string;
+  line: number; // 1-based line in the source string
+}
+
+export interface LevelSource {
+  header: LevelHeaderEntry[];
+  rows: string[];
+  firstRowLine: number; // 1-based line of rows[0] in the source string
+}
+
+// Split a level string into its optional front-matter block and the grid rows
+// Front matter is delimited by `---` lines and holds `key: value` pairs, plus
+// per-entity overrides keyed by grid position (see parseEntityOverrides):
+//
+// ---
+// name: Summit
+// lives: 5
+// cannonFireRate: 2
+// @3,12: fireRate=0.8
+// ---
+// ..............................
+export function splitLevelSource(asciiLevel: string): LevelSource {
+  const lines = asciiLevel.split(/\r?\n/);
+  const header: LevelHeaderEntry[] = [];
+  
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  
+  if (start < end && lines[start].trim() === '---') {
+    let close = start + 1;
+    while (close < end && lines[close].trim() !== '---') close++;
+    
+    for (let i = start + 1; i < close; i++) {
+      const line = lines[i].trim();
+      // Skip blank lines and comments
+      if (line === '' || line.startsWith('#')) continue;
+      
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        header.push({ key: line, value: '', line: i + 1 });
+      } else {
+        header.push({
+          key: line.slice(0, separator).trim(),
+          value: line.slice(separator + 1).trim(),
+          line: i + 1,
+        });
+      }
+    }
+    
+    start = close + 1;
+    while (start < end && lines[start].trim() === '') start++;
+  }
+  
+  return {
+    header,
+    rows: lines.slice(start, end),
+    firstRowLine: start + 1,
+  };
+}
+
+// Build level metadata from header entries, falling back to defaults
+// Unknown keys and malformed numbers are ignored
+export function parseLevelMeta(header: LevelHeaderEntry[]): LevelMeta {
+  const meta: LevelMeta = { ...DEFAULT_LEVEL_META };
+  
+  for (const { key, value } of header) {
+    if (!Object.hasOwn(DEFAULT_LEVEL_META, key)) continue;
+    const metaKey = key as keyof LevelMeta;
+    
+    if (typeof DEFAULT_LEVEL_META[metaKey] === 'number') {
+      const number = Number(value);
+      if (value !== '' && Number.isFinite(number)) {
+        (meta[metaKey] as number) = number;
+      }
+    } else {
+      (meta[metaKey] as string) = value;
+    }
+  }
+  
+  if (!isPowerUpType(meta.powerUp)) {
+    meta.powerUp = DEFAULT_LEVEL_META.powerUp;
+  }
+  
+  return meta;
+}
+
+export function isPowerUpType(value: string): value is PowerUpType {
+  return (POWER_UP_TYPES as readonly string[]).includes(value);
+}
+
+// Parameters that can be overridden per entity, by entity kind
+export const ENTITY_PARAMS = {
+  cannon: ['fireRate'],
+  moving: ['moveRange', 'moveSpeed'], // applies to the run starting at the position
+  breakable: ['crumbleTime', 'reformDelay'], // same
+  enemy: ['speed', 'patrol'], // walkers and flyers
+  powerup: ['powerUp'], // name from POWER_UP_TYPES
+} as const;
+
+// Per-entity parameter values keyed by `${row},${col}` (0-based grid position)
+export type EntityOverrides = Map<string, Record<string, string>>;
+
+// Collect `@<row>,<col>: key=value key=value` header entries
+// Positions are 1-based like editor line/column numbers, row 1 is the top grid row
+export function parseEntityOverrides(header: LevelHeaderEntry[]): EntityOverrides {
+  const overrides: EntityOverrides = new Map();
+  
+  for (const { key, value } of header) {
+    const match = /^@(\d+),(\d+)$/.exec(key);
+    if (!match) continue;
+    
+    const position = `${Number(match[1]) - 1},${Number(match[2]) - 1}`;
+    const params = overrides.get(position) || {};
+    for (const pair of value.split(/\s+/)) {
+      const [param, paramValue] = pair.split('=');
+      if (param && paramValue !== undefined) {
+        params[param] = paramValue;
+      }
+    }
+    overrides.set(position, params);
+  }
+  
+  return overrides;
+}
+
+// Read a numeric override, falling back to the level default
+function overrideNumber(params: Record<string, string> | undefined, param: string, fallback: number): number {
+  const raw = params?.[param];
+  const value = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isFinite(value) ? value : fallback;
+}
+
 export function parseLevel(asciiLevel: string): LevelData {
-  const lines = asciiLevel.trim().split('\n');
+  const source = splitLevelSource(asciiLevel);
+  const lines = source.rows;
+  const meta = parseLevelMeta(source.header);
+  const overrides = parseEntityOverrides(source.header);
   const platforms: Platform[] = [];
   const enemies: Enemy[] = [];
   const collectibles: Collectible[] = [];
   const cannons: Cannon[] = [];
-  const projectiles: Projectile[] = [];
+  const projectiles: Projectile[] = createProjectilePool();
+  const checkpoints: Checkpoint[] = [];
   let portal: Portal | null = null;
   let playerStart: Vector2 = { x: 100, y: 100 };
   
@@ -66,6 +231,7 @@ export function parseLevel(asciiLevel: string): LevelData {
     for (const char of chars) {
       const gameX = col * TILE_SIZE;
       const tileType = TILE_TYPES[char as TileType];
+      const params = overrides.get(`${row},${col}`);
       
       if (tileType) {
         if (tileType === 'player-start') {
@@ -95,11 +261,11 @@ export function parseLevel(asciiLevel: string): LevelData {
           let patrolRange = TILE_SIZE * 3;
           
           if (enemyType === 'walker') {
-            velocityX = 120; // Faster walker
-            patrolRange = TILE_SIZE * 4;
+            velocityX = overrideNumber(params, 'speed', meta.walkerSpeed);
+            patrolRange = TILE_SIZE * overrideNumber(params, 'patrol', meta.walkerPatrol);
           } else if (enemyType === 'flyer') {
-            velocityX = 100; // Flying enemy
-            patrolRange = TILE_SIZE * 3;
+            velocityX = overrideNumber(params, 'speed', meta.flyerSpeed); // Flying enemy
+            patrolRange = TILE_SIZE * overrideNumber(params, 'patrol', meta.flyerPatrol);
           }
           
           enemies.push({
@@ -120,7 +286,7 @@ export function parseLevel(asciiLevel: string): LevelData {
         }
         else if (tileType.startsWith('collectible-')) {
           const collectibleType = tileType.replace('collectible-', '') as Collectible['type'];
-          collectibles.push({
+          const collectible: Collectible = {
             x: gameX + TILE_SIZE * 0.25,
             y: gameY + TILE_SIZE * 0.25,
             width: TILE_SIZE * 0.5,
@@ -128,7 +294,13 @@ export function parseLevel(asciiLevel: string): LevelData {
             type: collectibleType,
             collected: false,
             color: COLLECTIBLE_COLORS[collectibleType],
-          });
+          };
+          
+          if (collectibleType === 'powerup') {
+            const powerUp = params?.powerUp;
+            collectible.powerUp = powerUp && isPowerUpType(powerUp) ? powerUp : meta.powerUp;
+          }
+          collectibles.push(collectible);
         }
         else if (tileType.startsWith('cannon-')) {
           const direction = tileType === 'cannon-right' ? 1 : -1;
@@ -138,11 +310,22 @@ export function parseLevel(asciiLevel: string): LevelData {
             width: TILE_SIZE,
             height: TILE_SIZE,
             direction: direction,
-            fireRate: 1.5, // Fire every 1.5 seconds - faster!
+            fireRate: overrideNumber(params, 'fireRate', meta.cannonFireRate),
             lastFired: 0,
             color: '#5c6370',
           });
         }
+        else if (tileType === 'checkpoint') {
+          // Flag pole standing on the tile below
+          checkpoints.push({
+            x: gameX + TILE_SIZE * 0.3,
+            y: gameY,
+            width: TILE_SIZE * 0.4,
+            height: TILE_SIZE,
+            active: false,
+            color: '#e67e22',
+          });
+        }
         else if (tileType === 'portal') {
           portal = {
             x: gameX,
@@ -174,10 +357,18 @@ export function parseLevel(asciiLevel: string): LevelData {
       
       // Add movement properties for moving platforms
       if (platform.type === 'moving') {
-        platform.moveRange = TILE_SIZE * 3;
-        platform.moveSpeed = 80;
+        const params = overrides.get(`${row},${run.startCol}`);
+        platform.moveRange = TILE_SIZE * overrideNumber(params, 'moveRange', meta.movingRange);
+        platform.moveSpeed = overrideNumber(params, 'moveSpeed', meta.movingSpeed);
         platform.startX = platform.x;
         platform.currentVelocityX = 0;
+      } else if (platform.type === 'breakable') {
+        const params = overrides.get(`${row},${run.startCol}`);
+        platform.breakState = 'solid';
+        platform.breakTimer = 0;
+        platform.crumbleTime = overrideNumber(params, 'crumbleTime', meta.crumbleTime);
+        platform.reformDelay = overrideNumber(params, 'reformDelay', meta.reformDelay);
+        platform.startY = platform.y;
       }
       
       platforms.push(platform);
@@ -185,25 +376,37 @@ export function parseLevel(asciiLevel: string): LevelData {
   }
   
   return {
+    meta,
     platforms,
     enemies,
     collectibles,
     cannons,
     projectiles,
+    checkpoints,
     portal,
     playerStart,
     levelHeight,
     levelWidth: maxWidth,
+    index: createLevelIndex(TILE_SIZE, { platforms, enemies, collectibles, cannons, checkpoints }),
   };
 }
 
 // Challenging level with cannons, enemies, and obstacles
+// Optional front matter between `---` lines sets name, lives, colors and
+// default entity parameters (see DEFAULT_LEVEL_META)
 // Legend:
 // ▓ = normal platform, ~ = moving platform, ○ = bouncy platform
 // P = player start, W = walker, S = static hazard, F = flyer
 // * = star, > = cannon right, < = cannon left, O = portal (goal)
+// ╳ = breakable platform (crumbles when stood on)
+// K = checkpoint (respawn point once touched), U = power-up (see POWER_UP_TYPES)
 // All lines are exactly 30 characters for consistent level width
 export const DEMO_LEVEL = `
+---
+name: The Tower
+@73,5: patrol=3
+@92,22: patrol=3
+---
 ..............................
 ..............O...............
 ..............................
@@ -229,12 +432,12 @@ export const DEMO_LEVEL = `
 .▓▓▓▓........▓▓▓▓▓▓▓▓▓▓.......
 .>............<...............
 .....○○○○○○○○○......▓▓▓▓▓▓....
-..S.......S.......S...........
+..S..K....S.......S...........
 .▓▓▓▓▓▓▓▓▓▓▓▓▓▓...............
 ..........>..........F........
 .~~~~.........▓▓▓▓▓▓▓▓▓▓▓▓....
 .....S.............<..........
-.▓▓▓▓▓▓.......▓▓▓▓▓.....○○○○○○
+.▓▓▓▓▓▓.......╳╳╳╳╳.....○○○○○○
 ..............................
 .○○○○○○○.........S.....▓▓▓▓▓▓▓
 ..>..........S................
@@ -257,7 +460,7 @@ export const DEMO_LEVEL = `
 ......▓▓▓▓▓▓▓▓▓▓▓▓▓▓..........
 ............F.................
 .*.......W...........○○○○○....
-.▓▓▓▓▓▓▓▓▓▓▓▓......▓▓▓▓▓▓....
+.▓▓▓▓▓▓▓▓▓▓▓▓......▓▓▓▓▓▓.....
 ..........>........*..........
 .○○○○..........▓▓▓▓▓▓......F..
 ......................▓▓▓▓▓▓▓▓
@@ -269,13 +472,13 @@ export const DEMO_LEVEL = `
 ..>............W.......○○○○...
 ........▓▓▓▓▓▓▓▓▓▓▓...........
 .*..S.........................
-.○○○○○○○○○.......▓▓▓▓▓▓▓▓....
+.○○○○○○○○○.......▓▓▓▓▓▓▓▓.....
 ..........<...................
 .F.......▓▓▓▓▓▓▓▓........*....
 .....................○○○○○○○○○
 ......*........W..............
 .....▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓........
-............>..........*.....
+............>..........*......
 .*..W...○○○○○○○..........▓▓▓▓▓
 .▓▓▓▓▓▓▓▓▓▓...................
 ..........<...................
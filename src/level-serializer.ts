@@ -0,0 +1,148 @@
+import { LevelData, LevelMeta, TileKind } from './types';
+import { TILE_SIZE, DEFAULT_LEVEL_META } from './level-parser';
+
+// Glyph written for each tile kind (the plain ASCII variant where there is one)
+export const TILE_GLYPHS: Record<TileKind, string> = {
+  'platform-normal': '▓',
+  'platform-moving': '~',
+  'platform-bouncy': '○',
+  'platform-breakable': '╳',
+  'player-start': 'P',
+  'enemy-walker': 'W',
+  'enemy-jumper': 'J',
+  'enemy-static': 'S',
+  'enemy-flyer': 'F',
+  'cannon-right': '>',
+  'cannon-left': '<',
+  'collectible-star': '*',
+  'collectible-coin': 'C',
+  'collectible-powerup': 'U',
+  'checkpoint': 'K',
+  'portal': 'O',
+  'empty': '.',
+};
+
+// Turn LevelData back into the ASCII format parseLevel reads
+// Entities are placed at their spawn positions, header values and
+// per-entity overrides are only written where they differ from the defaults
+export function serializeLevel(level: LevelData): string {
+  const rows = Math.round(level.levelHeight / TILE_SIZE);
+  const cols = Math.round(level.levelWidth / TILE_SIZE);
+  const grid: string[][] = [];
+  for (let row = 0; row < rows; row++) {
+    grid.push(new Array(cols).fill(TILE_GLYPHS.empty));
+  }
+
+  // Game Y grows upward, grid rows go top to bottom
+  const rowOf = (y: number) => rows - 1 - Math.round(y / TILE_SIZE);
+  const colOf = (x: number) => Math.round(x / TILE_SIZE);
+  const inGrid = (row: number, col: number) => row >= 0 && row < rows && col >= 0 && col < cols;
+  const place = (row: number, col: number, glyph: string) => {
+    if (inGrid(row, col)) grid[row][col] = glyph;
+  };
+
+  const overrides: { row: number; col: number; params: string[] }[] = [];
+  const addOverride = (
+    row: number,
+    col: number,
+    values: Record<string, [number | string | undefined, number | string]>
+  ) => {
+    const params: string[] = [];
+    for (const [param, [value, fallback]] of Object.entries(values)) {
+      if (value !== undefined && value !== fallback) {
+        params.push(`${param}=${value}`);
+      }
+    }
+    if (params.length > 0) overrides.push({ row, col, params });
+  };
+
+  const meta = level.meta;
+
+  for (const platform of level.platforms) {
+    const row = rowOf(platform.startY ?? platform.y);
+    const startCol = colOf(platform.startX ?? platform.x);
+    const length = Math.round(platform.width / TILE_SIZE);
+    for (let col = startCol; col < startCol + length; col++) {
+      place(row, col, TILE_GLYPHS[`platform-${platform.type}`]);
+    }
+
+    if (platform.type === 'moving') {
+      addOverride(row, startCol, {
+        moveRange: [platform.moveRange === undefined ? undefined : platform.moveRange / TILE_SIZE, meta.movingRange],
+        moveSpeed: [platform.moveSpeed, meta.movingSpeed],
+      });
+    } else if (platform.type === 'breakable') {
+      addOverride(row, startCol, {
+        crumbleTime: [platform.crumbleTime, meta.crumbleTime],
+        reformDelay: [platform.reformDelay, meta.reformDelay],
+      });
+    }
+  }
+
+  for (const enemy of level.enemies) {
+    const row = rowOf(enemy.startY ?? enemy.y);
+    const col = colOf(enemy.startX ?? enemy.x);
+    place(row, col, TILE_GLYPHS[`enemy-${enemy.type}`]);
+
+    if (enemy.type === 'walker' || enemy.type === 'flyer') {
+      const walker = enemy.type === 'walker';
+      addOverride(row, col, {
+        speed: [enemy.velocityX, walker ? meta.walkerSpeed : meta.flyerSpeed],
+        patrol: [
+          enemy.patrolRange === undefined ? undefined : enemy.patrolRange / TILE_SIZE,
+          walker ? meta.walkerPatrol : meta.flyerPatrol,
+        ],
+      });
+    }
+  }
+
+  for (const cannon of level.cannons) {
+    const row = rowOf(cannon.y);
+    const col = colOf(cannon.x);
+    place(row, col, TILE_GLYPHS[cannon.direction === 1 ? 'cannon-right' : 'cannon-left']);
+    addOverride(row, col, { fireRate: [cannon.fireRate, meta.cannonFireRate] });
+  }
+
+  for (const collectible of level.collectibles) {
+    const row = rowOf(collectible.y - TILE_SIZE * 0.25);
+    const col = colOf(collectible.x - TILE_SIZE * 0.25);
+    place(row, col, TILE_GLYPHS[`collectible-${collectible.type}`]);
+
+    if (collectible.type === 'powerup') {
+      addOverride(row, col, { powerUp: [collectible.powerUp, meta.powerUp] });
+    }
+  }
+
+  for (const checkpoint of level.checkpoints) {
+    place(rowOf(checkpoint.y), colOf(checkpoint.x - TILE_SIZE * 0.3), TILE_GLYPHS.checkpoint);
+  }
+
+  if (level.portal) {
+    place(rowOf(level.portal.y), colOf(level.portal.x), TILE_GLYPHS.portal);
+  }
+
+  // The start may be the parser's fallback position - never overwrite a tile for it
+  const startRow = rowOf(level.playerStart.y - TILE_SIZE / 2);
+  const startCol = colOf(level.playerStart.x - TILE_SIZE / 2);
+  if (inGrid(startRow, startCol) && grid[startRow][startCol] === TILE_GLYPHS.empty) {
+    grid[startRow][startCol] = TILE_GLYPHS['player-start'];
+  }
+
+  // Front matter: changed metadata, then overrides in grid order
+  const header: string[] = [];
+  for (const key of Object.keys(DEFAULT_LEVEL_META) as (keyof LevelMeta)[]) {
+    if (meta[key] !== DEFAULT_LEVEL_META[key]) {
+      header.push(`${key}: ${meta[key]}`);
+    }
+  }
+  overrides.sort((a, b) => a.row - b.row || a.col - b.col);
+  for (const { row, col, params } of overrides) {
+    header.push(`@${row + 1},${col + 1}: ${params.join(' ')}`);
+  }
+
+  const lines = grid.map(row => row.join(''));
+  if (header.length === 0) {
+    return lines.join('\n');
+  }
+  return ['---', ...header, '---', ...lines].join('\n');
+}
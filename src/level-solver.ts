@@ -0,0 +1,181 @@
+import { LevelData, Platform, Rectangle } from './types';
+import { PLAYER_PHYSICS } from './player';
+
+/**
+ * Offline reachability analysis
+ * Builds a jump graph between platforms from the real player physics and
+ * checks whether the portal can be reached from the player start
+ */
+
+export interface ReachabilityReport {
+  portalReachable: boolean;
+  // Fewest jumps from the start to the portal (null if unreachable)
+  minJumps: number | null;
+  // Platforms landed on along the shortest route
+  route: Platform[];
+  reachablePlatforms: Platform[];
+  unreachablePlatforms: Platform[];
+}
+
+// Height lost to per-frame integration, so borderline jumps count as misses
+const APEX_MARGIN = 4;
+
+// Player.intersectsFromAbove snaps the feet onto a platform from up to this
+// far below the platform's underside
+const LANDING_TOLERANCE = 10;
+
+interface JumpNode {
+  platform: Platform | null; // null for the player start
+  // Range of player x positions where the player stands on this node
+  minX: number;
+  maxX: number;
+  // Y of the player's feet when standing here
+  feetY: number;
+  // Lowest feet Y from which a landing snaps onto this node
+  snapY: number;
+  // Upward velocity when leaving this node
+  launchVelocity: number;
+  // Horizontal velocity when leaving this node
+  launchSpeedX: number;
+}
+
+// Horizontal distance covered after `time` seconds in the air
+function horizontalReach(time: number, speedX: number): number {
+  const { MOVE_SPEED, ACCELERATION, AIR_CONTROL } = PLAYER_PHYSICS;
+  const acceleration = ACCELERATION * AIR_CONTROL;
+  const accelerationTime = Math.min(time, (MOVE_SPEED - speedX) / acceleration);
+  return speedX * accelerationTime
+    + 0.5 * acceleration * accelerationTime * accelerationTime
+    + MOVE_SPEED * (time - accelerationTime);
+}
+
+// Latest time at which the feet are at `height` above the launch point on the
+// way down (or at the apex if it is lower), or null if the feet never get
+// above `minHeight`
+function descentTime(launchVelocity: number, height: number, minHeight: number): number | null {
+  const { GRAVITY } = PLAYER_PHYSICS;
+  const apex = (launchVelocity * launchVelocity) / (2 * GRAVITY) - APEX_MARGIN;
+  if (minHeight > apex) return null;
+  const discriminant = launchVelocity * launchVelocity - 2 * GRAVITY * Math.min(height, apex);
+  return (launchVelocity + Math.sqrt(Math.max(0, discriminant))) / GRAVITY;
+}
+
+function createPlatformNode(platform: Platform): JumpNode {
+  const { WIDTH, JUMP_FORCE, BOUNCE_FORCE, MOVE_SPEED } = PLAYER_PHYSICS;
+  // Moving platforms can be used anywhere along their path
+  const reach = platform.type === 'moving' ? platform.moveRange || 0 : 0;
+  const left = platform.type === 'moving' && platform.startX !== undefined ? platform.startX : platform.x;
+
+  return {
+    platform,
+    minX: left - WIDTH,
+    maxX: left + platform.width + reach,
+    feetY: platform.y + platform.height,
+    snapY: platform.y - LANDING_TOLERANCE,
+    launchVelocity: platform.type === 'bouncy' ? BOUNCE_FORCE : JUMP_FORCE,
+    launchSpeedX: MOVE_SPEED,
+  };
+}
+
+// Can a jump from `from` land on `target`
+function canReach(from: JumpNode, target: JumpNode): boolean {
+  const time = descentTime(from.launchVelocity, target.feetY - from.feetY, target.snapY - from.feetY);
+  if (time === null) return false;
+  const reach = horizontalReach(time, from.launchSpeedX);
+  return from.minX - reach < target.maxX && from.maxX + reach > target.minX;
+}
+
+// Can a jump from `from` touch the portal rectangle
+function canReachPortal(from: JumpNode, portal: Rectangle): boolean {
+  const { WIDTH, HEIGHT } = PLAYER_PHYSICS;
+  // Lowest feet height at which the player's head still overlaps the portal
+  const height = portal.y - HEIGHT - from.feetY;
+  const time = descentTime(from.launchVelocity, height, height);
+  if (time === null) return false;
+  const reach = horizontalReach(time, from.launchSpeedX);
+  return from.minX - reach < portal.x + portal.width && from.maxX + reach > portal.x - WIDTH;
+}
+
+export function analyzeLevel(level: LevelData): ReachabilityReport {
+  const { WIDTH, HEIGHT } = PLAYER_PHYSICS;
+
+  // Cannons are solid blocks the player can stand on, just like in the game
+  const platforms: Platform[] = [
+    ...level.platforms,
+    ...level.cannons.map(cannon => ({
+      x: cannon.x,
+      y: cannon.y,
+      width: cannon.width,
+      height: cannon.height,
+      type: 'normal' as const,
+      color: cannon.color,
+    })),
+  ];
+
+  const startX = level.playerStart.x - WIDTH / 2;
+  const start: JumpNode = {
+    platform: null,
+    minX: startX,
+    maxX: startX,
+    feetY: level.playerStart.y - HEIGHT / 2,
+    snapY: level.playerStart.y - HEIGHT / 2,
+    launchVelocity: 0,
+    launchSpeedX: 0,
+  };
+  const nodes = [start, ...platforms.map(createPlatformNode)];
+
+  // Breadth-first search over jumps - falling from the start is free, and the
+  // start is dequeued first so the queue stays ordered by jump count
+  const jumps: (number | null)[] = nodes.map(() => null);
+  const previous: number[] = nodes.map(() => -1);
+  let portalJumps: number | null = null;
+  let portalFrom = -1;
+
+  jumps[0] = 0;
+  const queue = [0];
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    const node = nodes[index];
+    const cost = index === 0 ? 0 : 1;
+    const nodeJumps = jumps[index]!;
+
+    if (level.portal && portalJumps === null && canReachPortal(node, level.portal)) {
+      portalJumps = nodeJumps + cost;
+      portalFrom = index;
+    }
+
+    for (let next = 1; next < nodes.length; next++) {
+      if (jumps[next] !== null) continue;
+      if (canReach(node, nodes[next])) {
+        jumps[next] = nodeJumps + cost;
+        previous[next] = index;
+        queue.push(next);
+      }
+    }
+  }
+
+  const route: Platform[] = [];
+  for (let index = portalFrom; index > 0; index = previous[index]) {
+    route.unshift(nodes[index].platform!);
+  }
+
+  const reachablePlatforms: Platform[] = [];
+  const unreachablePlatforms: Platform[] = [];
+  // Only report real platforms, not cannons
+  for (let index = 1; index <= level.platforms.length; index++) {
+    const platform = nodes[index].platform!;
+    if (jumps[index] !== null) {
+      reachablePlatforms.push(platform);
+    } else {
+      unreachablePlatforms.push(platform);
+    }
+  }
+
+  return {
+    portalReachable: portalJumps !== null,
+    minJumps: portalJumps,
+    route,
+    reachablePlatforms,
+    unreachablePlatforms,
+  };
+}
@@ -0,0 +1,238 @@
+import { TILE_TYPES, TileType } from './types';
+import {
+  splitLevelSource,
+  parseLevelMeta,
+  parseEntityOverrides,
+  isPowerUpType,
+  DEFAULT_LEVEL_META,
+  ENTITY_PARAMS,
+} from './level-parser';
+
+export type LevelDiagnosticCode =
+  | 'missing-start'
+  | 'duplicate-start'
+  | 'missing-portal'
+  | 'duplicate-portal'
+  | 'ragged-width'
+  | 'unknown-glyph'
+  | 'unknown-meta-key'
+  | 'invalid-override'
+  | 'unknown-power-up'
+  | 'cannon-blocked'
+  | 'enemy-in-platform';
+
+export interface LevelDiagnostic {
+  code: LevelDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based line in the level source
+  column: number; // 1-based character column (emoji count as one)
+}
+
+interface GridTile {
+  char: string;
+  type: string | undefined;
+  row: number;
+  col: number;
+}
+
+// Check a level source for structural problems that parseLevel would silently accept
+// Errors make a level unplayable, warnings point at likely mistakes
+export function validateLevel(asciiLevel: string): LevelDiagnostic[] {
+  const source = splitLevelSource(asciiLevel);
+  const meta = parseLevelMeta(source.header);
+  const overrides = parseEntityOverrides(source.header);
+  const diagnostics: LevelDiagnostic[] = [];
+
+  const report = (
+    code: LevelDiagnosticCode,
+    severity: LevelDiagnostic['severity'],
+    message: string,
+    line: number,
+    column: number
+  ) => {
+    diagnostics.push({ code, severity, message, line, column });
+  };
+
+  // Header keys - per-entity overrides are checked once the grid is known
+  for (const entry of source.header) {
+    if (!entry.key.startsWith('@') && !Object.hasOwn(DEFAULT_LEVEL_META, entry.key)) {
+      report('unknown-meta-key', 'warning', `Unknown header key "${entry.key}"`, entry.line, 1);
+    } else if (entry.key === 'powerUp' && !isPowerUpType(entry.value)) {
+      report('unknown-power-up', 'warning', `Unknown power-up "${entry.value}"`, entry.line, 1);
+    }
+  }
+
+  // Same character splitting as parseLevel so columns match tile positions
+  const grid: GridTile[][] = source.rows.map((line, row) =>
+    [...line].map((char, col) => ({ char, type: TILE_TYPES[char as TileType], row, col }))
+  );
+  const lineOf = (row: number) => source.firstRowLine + row;
+  const tileAt = (row: number, col: number): GridTile | undefined => grid[row]?.[col];
+  const isSolid = (tile: GridTile | undefined) =>
+    !!tile && !!tile.type && (tile.type.startsWith('platform-') || tile.type.startsWith('cannon-'));
+  const overrideNumber = (tile: GridTile, param: string, fallback: number) => {
+    const raw = overrides.get(`${tile.row},${tile.col}`)?.[param];
+    const value = raw ? Number(raw) : NaN;
+    return Number.isFinite(value) ? value : fallback;
+  };
+
+  // Line widths - every row should match the first one
+  const expectedWidth = grid.length > 0 ? grid[0].length : 0;
+  grid.forEach((tiles, row) => {
+    if (tiles.length !== expectedWidth) {
+      report(
+        'ragged-width',
+        'warning',
+        `Row is ${tiles.length} characters wide, expected ${expectedWidth}`,
+        lineOf(row),
+        Math.min(tiles.length, expectedWidth) + 1
+      );
+    }
+  });
+
+  const starts: GridTile[] = [];
+  const portals: GridTile[] = [];
+
+  for (const tiles of grid) {
+    for (const tile of tiles) {
+      if (!tile.type) {
+        report('unknown-glyph', 'error', `Unknown tile "${tile.char}"`, lineOf(tile.row), tile.col + 1);
+      } else if (tile.type === 'player-start') {
+        starts.push(tile);
+      } else if (tile.type === 'portal') {
+        portals.push(tile);
+      } else if (tile.type.startsWith('cannon-')) {
+        checkCannon(tile);
+      } else if (tile.type.startsWith('enemy-')) {
+        checkEnemy(tile);
+      }
+    }
+  }
+
+  // Overrides must point at an entity that accepts the given parameters
+  for (const entry of source.header) {
+    if (!entry.key.startsWith('@')) continue;
+
+    const match = /^@(\d+),(\d+)$/.exec(entry.key);
+    const tile = match ? tileAt(Number(match[1]) - 1, Number(match[2]) - 1) : undefined;
+    const accepted = tile ? acceptedParams(tile) : [];
+    if (accepted.length === 0) {
+      report('invalid-override', 'warning', `Override "${entry.key}" does not point at a configurable entity`, entry.line, 1);
+      continue;
+    }
+
+    const params = overrides.get(`${tile!.row},${tile!.col}`) || {};
+    for (const [param, value] of Object.entries(params)) {
+      if (!accepted.includes(param)) {
+        report('invalid-override', 'warning', `Unknown parameter "${param}" for "${tile!.char}"`, entry.line, 1);
+      } else if (param === 'powerUp' && !isPowerUpType(value)) {
+        report('unknown-power-up', 'warning', `Unknown power-up "${value}"`, entry.line, 1);
+      }
+    }
+  }
+
+  // Parameters an override at this tile may set
+  function acceptedParams(tile: GridTile): readonly string[] {
+    if (!tile.type) return [];
+    if (tile.type.startsWith('cannon-')) return ENTITY_PARAMS.cannon;
+    if (tile.type === 'enemy-walker' || tile.type === 'enemy-flyer') return ENTITY_PARAMS.enemy;
+    if (tile.type === 'collectible-powerup') return ENTITY_PARAMS.powerup;
+    // Moving and breakable platform overrides go on the first tile of a run
+    const runStart = tileAt(tile.row, tile.col - 1)?.type !== tile.type;
+    if (tile.type === 'platform-moving' && runStart) return ENTITY_PARAMS.moving;
+    if (tile.type === 'platform-breakable' && runStart) return ENTITY_PARAMS.breakable;
+    return [];
+  }
+
+  // Start and portal must appear exactly once
+  const firstLine = source.firstRowLine;
+  if (starts.length === 0) {
+    report('missing-start', 'error', 'Level has no player start (P)', firstLine, 1);
+  }
+  for (const extra of starts.slice(1)) {
+    report(
+      'duplicate-start',
+      'error',
+      `Duplicate player start, first one is at ${lineOf(starts[0].row)}:${starts[0].col + 1}`,
+      lineOf(extra.row),
+      extra.col + 1
+    );
+  }
+  if (portals.length === 0) {
+    report('missing-portal', 'error', 'Level has no portal (O)', firstLine, 1);
+  }
+  for (const extra of portals.slice(1)) {
+    report(
+      'duplicate-portal',
+      'error',
+      `Duplicate portal, first one is at ${lineOf(portals[0].row)}:${portals[0].col + 1}`,
+      lineOf(extra.row),
+      extra.col + 1
+    );
+  }
+
+  // Cannons must not fire straight into the level wall or a solid tile
+  function checkCannon(tile: GridTile): void {
+    const direction = tile.type === 'cannon-right' ? 1 : -1;
+    const nextCol = tile.col + direction;
+
+    if (nextCol < 0 || nextCol >= expectedWidth) {
+      report('cannon-blocked', 'warning', 'Cannon fires straight into the level wall', lineOf(tile.row), tile.col + 1);
+    } else if (isSolid(tileAt(tile.row, nextCol))) {
+      report('cannon-blocked', 'warning', 'Cannon fires straight into a platform', lineOf(tile.row), tile.col + 1);
+    }
+  }
+
+  // Enemies must not overlap platforms in their own row, including the
+  // columns walkers and flyers patrol and the reach of moving platforms
+  function checkEnemy(tile: GridTile): void {
+    let patrol = 0;
+    if (tile.type === 'enemy-walker') {
+      patrol = overrideNumber(tile, 'patrol', meta.walkerPatrol);
+    } else if (tile.type === 'enemy-flyer') {
+      patrol = overrideNumber(tile, 'patrol', meta.flyerPatrol);
+    }
+    const enemyStart = tile.col - patrol;
+    const enemyEnd = tile.col + 0.8 + patrol;
+
+    for (const other of grid[tile.row]) {
+      if (!other.type || !other.type.startsWith('platform-')) continue;
+
+      const platformStart = other.col;
+      let reach = 0;
+      if (other.type === 'platform-moving') {
+        // The range is set on the first tile of the run
+        let runStart = other;
+        while (tileAt(runStart.row, runStart.col - 1)?.type === 'platform-moving') {
+          runStart = tileAt(runStart.row, runStart.col - 1)!;
+        }
+        reach = overrideNumber(runStart, 'moveRange', meta.movingRange);
+      }
+      const platformEnd = other.col + 1 + reach;
+
+      if (enemyStart < platformEnd && enemyEnd > platformStart) {
+        report(
+          'enemy-in-platform',
+          'warning',
+          `Enemy overlaps the platform at column ${other.col + 1}`,
+          lineOf(tile.row),
+          tile.col + 1
+        );
+        return;
+      }
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// Errors make a level unplayable - warnings are only reported
+export function hasLevelErrors(diagnostics: LevelDiagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+// Format a diagnostic as `line:column severity message (code)`
+export function formatDiagnostic(diagnostic: LevelDiagnostic): string {
+  return `${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.message} (${diagnostic.code})`;
+}
@@ -0,0 +1,95 @@
+import { DEMO_LEVEL } from './level-parser';
+
+// Short opening tower to get used to jumping, bouncing and stomping
+// Legend: see DEMO_LEVEL in level-parser.ts
+// All lines are exactly 30 characters for consistent level width
+export const WARMUP_LEVEL = `
+---
+name: Warm-up
+---
+..............................
+.............O................
+..............................
+..........▓▓▓▓▓▓▓▓............
+..............................
+...................▓▓▓▓▓▓.....
+..............S...............
+.........▓▓▓▓▓▓▓▓▓............
+..............................
+..▓▓▓▓▓▓......................
+.........................*....
+..........○○○○○.....▓▓▓▓▓▓....
+..............................
+..................▓▓▓▓▓▓......
+.....*..U.....W...............
+....▓▓▓▓▓▓▓▓▓▓▓▓▓▓............
+..............................
+.....................▓▓▓▓▓▓...
+..............................
+..........▓▓▓▓▓▓▓.............
+..............................
+..▓▓▓▓▓▓......................
+..............................
+.P............................
+▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓
+`;
+
+// Final tower: narrow ledges, more cannons and flyers
+// All lines are exactly 30 characters for consistent level width
+export const SUMMIT_LEVEL = `
+---
+name: Summit
+cannonFireRate: 1.2
+flyerSpeed: 130
+backgroundTop: #2a1a3e
+backgroundBottom: #120a1a
+@21,5: powerUp=doubleJump
+---
+..............................
+.............O................
+..............................
+..S.......▓▓▓▓▓▓▓▓.........S..
+..............................
+..>....................<......
+.▓▓▓▓▓.....F.........▓▓▓▓▓▓...
+..............................
+.........○○○○○○...............
+.....S.....................F..
+..▓▓▓▓▓▓..........╳╳╳╳╳╳╳.....
+..............<...............
+.......~~~~...................
+.S...................S........
+.▓▓▓▓......▓▓▓▓▓▓▓▓▓▓▓▓▓▓.....
+..>...........................
+...........*.........○○○○○○...
+.....▓▓▓▓▓▓▓▓▓................
+.........................<....
+..F..........▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓..
+....U.....W...................
+..▓▓▓▓▓▓▓▓▓▓▓▓▓...............
+...............>..............
+.○○○○○○..............▓▓▓▓▓▓▓..
+...........S..................
+.........▓▓▓▓▓▓▓▓▓▓...........
+.....<...................F....
+..............................
+.▓▓▓▓▓▓▓▓.......○○○○○○○○......
+..............................
+.....*.....W............K.....
+....▓▓▓▓▓▓▓▓▓▓▓▓▓.....▓▓▓▓▓▓..
+..........................>...
+.~~~~.........................
+........S.........▓▓▓▓▓▓▓▓▓...
+..............................
+..▓▓▓▓▓▓▓▓▓▓..................
+..............................
+.P............................
+▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓▓
+`;
+
+// Campaign levels in play order - reaching a portal loads the next one
+export const CAMPAIGN_LEVELS: string[] = [
+  WARMUP_LEVEL,
+  DEMO_LEVEL,
+  SUMMIT_LEVEL,
+];
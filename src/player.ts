@@ -1,22 +1,52 @@
-import { Entity, InputState, Platform, Rectangle } from './types';
+import { Entity, InputState, Platform, PowerUpType, Rectangle, Vector2 } from './types';
+import { intersects, sweepAABB } from './collision';
+import { EventBus } from './events';
+
+// Physics constants (shared with the offline level solver)
+export const PLAYER_PHYSICS = {
+  WIDTH: 32,
+  HEIGHT: 40,
+  GRAVITY: 1100,
+  JUMP_FORCE: 520,
+  BOUNCE_FORCE: 650, // For bouncy platforms
+  MOVE_SPEED: 340,
+  MAX_FALL_SPEED: 800,
+  ACCELERATION: 2200,
+  FRICTION: 1500,
+  AIR_CONTROL: 0.75, // Reduced control in air
+} as const;
+
+// Power-up durations in seconds and aura colors
+// Infinity lasts until the next respawn (the shield until it absorbs a hit)
+export const POWER_UPS: Record<PowerUpType, { duration: number; color: string }> = {
+  doubleJump: { duration: Infinity, color: '#9b59b6' },
+  shield: { duration: Infinity, color: '#5dade2' },
+  magnet: { duration: 10, color: '#f1c40f' },
+  highJump: { duration: 10, color: '#2ecc71' },
+  slowFall: { duration: 12, color: '#1abc9c' },
+};
 
 export class Player implements Entity {
   x: number;
   y: number;
-  width: number = 32;
-  height: number = 40;
+  width: number = PLAYER_PHYSICS.WIDTH;
+  height: number = PLAYER_PHYSICS.HEIGHT;
   velocityX: number = 0;
   velocityY: number = 0;
   
   // Physics constants
-  private readonly GRAVITY = 1100;
-  private readonly JUMP_FORCE = 520;
-  private readonly BOUNCE_FORCE = 650; // For bouncy platforms
-  private readonly MOVE_SPEED = 340;
-  private readonly MAX_FALL_SPEED = 800;
-  private readonly ACCELERATION = 2200;
-  private readonly FRICTION = 1500;
-  private readonly AIR_CONTROL = 0.75; // Reduced control in air
+  private readonly GRAVITY = PLAYER_PHYSICS.GRAVITY;
+  private readonly JUMP_FORCE = PLAYER_PHYSICS.JUMP_FORCE;
+  private readonly BOUNCE_FORCE = PLAYER_PHYSICS.BOUNCE_FORCE;
+  private readonly MOVE_SPEED = PLAYER_PHYSICS.MOVE_SPEED;
+  private readonly MAX_FALL_SPEED = PLAYER_PHYSICS.MAX_FALL_SPEED;
+  private readonly ACCELERATION = PLAYER_PHYSICS.ACCELERATION;
+  private readonly FRICTION = PLAYER_PHYSICS.FRICTION;
+  private readonly AIR_CONTROL = PLAYER_PHYSICS.AIR_CONTROL;
+  
+  // Power-up tuning
+  private readonly HIGH_JUMP_MULTIPLIER = 1.3;
+  private readonly SLOW_FALL_SPEED = 200;
   
   // State
   isOnGround: boolean = false;
@@ -29,6 +59,10 @@ export class Player implements Entity {
   invincibilityTimer: number = 0;
   private readonly INVINCIBILITY_DURATION = 2; // seconds
   
+  // Active power-ups and their remaining time in seconds
+  powerUps: Map<PowerUpType, number> = new Map();
+  private hasAirJumped: boolean = false;
+  
   // Hit flash effect
   hitFlashTimer: number = 0;
   private readonly HIT_FLASH_DURATION = 0.15; // seconds
@@ -36,13 +70,20 @@ export class Player implements Entity {
   // Platform the player is standing on (for moving platform support)
   currentPlatform: Platform | null = null;
   
+  // Distance moved during the last update (for swept collision checks)
+  lastMove: Vector2 = { x: 0, y: 0 };
+  
   // Visual
   color: string = '#3498db';
   private baseColor: string = '#3498db';
   
-  constructor(x: number, y: number) {
+  // Jumps and landings are announced here (none for display-only players)
+  private readonly events: EventBus | null;
+  
+  constructor(x: number, y: number, events: EventBus | null = null) {
     this.x = x - this.width / 2;
     this.y = y - this.height / 2;
+    this.events = events;
   }
   
   update(deltaTime: number, input: InputState, platforms: Platform[], levelWidth: number = 1240): void {
@@ -65,6 +106,15 @@ export class Player implements Entity {
       this.hitFlashTimer -= dt;
     }
     
+    // Count down timed power-ups
+    for (const [type, remaining] of this.powerUps) {
+      if (remaining - dt <= 0) {
+        this.powerUps.delete(type);
+      } else {
+        this.powerUps.set(type, remaining - dt);
+      }
+    }
+    
     // Apply moving platform velocity if standing on one
     if (this.currentPlatform && this.currentPlatform.type === 'moving' && this.currentPlatform.currentVelocityX) {
       this.x += this.currentPlatform.currentVelocityX * dt;
@@ -90,11 +140,19 @@ export class Player implements Entity {
     this.velocityX = Math.max(-this.MOVE_SPEED, Math.min(this.MOVE_SPEED, this.velocityX));
     
     // Jumping
+    const jumpForce = this.hasPowerUp('highJump') ? this.JUMP_FORCE * this.HIGH_JUMP_MULTIPLIER : this.JUMP_FORCE;
     if (input.jump && input.jumpPressed && this.canJump && this.isOnGround) {
-      this.velocityY = this.JUMP_FORCE;
+      this.velocityY = jumpForce;
       this.isOnGround = false;
       this.canJump = false;
       this.currentPlatform = null;
+      this.events?.emit('jump', { airJump: false });
+    } else if (input.jump && input.jumpPressed && this.canJump && this.hasPowerUp('doubleJump') && !this.hasAirJumped) {
+      // Second jump in mid-air
+      this.velocityY = jumpForce;
+      this.canJump = false;
+      this.hasAirJumped = true;
+      this.events?.emit('jump', { airJump: true });
     }
     
     // Reset jump ability when button released
@@ -106,9 +164,11 @@ export class Player implements Entity {
     this.velocityY -= this.GRAVITY * dt;
     
     // Clamp fall speed
-    this.velocityY = Math.max(-this.MAX_FALL_SPEED, this.velocityY);
+    const maxFallSpeed = this.hasPowerUp('slowFall') ? this.SLOW_FALL_SPEED : this.MAX_FALL_SPEED;
+    this.velocityY = Math.max(-maxFallSpeed, this.velocityY);
     
     // Apply horizontal movement
+    const start = this.getBounds();
     this.x += this.velocityX * dt;
     
     // Bounce off level boundaries (left and right walls)
@@ -125,36 +185,67 @@ export class Player implements Entity {
     this.y += this.velocityY * dt;
     
     // Check vertical collisions (one-way: only when falling)
+    const wasOnGround = this.isOnGround;
     this.isOnGround = false;
     this.currentPlatform = null;
+    const motion = { x: this.x - start.x, y: this.y - start.y };
     
-    for (const platform of platforms) {
-      // Only check collision when player is falling (velocityY < 0)
-      // This allows jumping through platforms from below
-      if (this.velocityY < 0 && this.intersectsFromAbove(platform)) {
-        // Landing on platform from above
-        this.y = platform.y + platform.height;
-        this.isOnGround = true;
-        this.currentPlatform = platform;
-        
-        // Handle special platform types
-        if (platform.type === 'bouncy') {
-          this.velocityY = this.BOUNCE_FORCE;
-          this.isOnGround = false;
-          this.currentPlatform = null;
-        } else {
-          this.velocityY = 0;
+    // Only check collision when player is falling (velocityY < 0)
+    // This allows jumping through platforms from below
+    const platform = this.velocityY < 0 ? this.findLanding(start, motion, platforms) : null;
+    if (platform) {
+      // Landing on platform from above
+      this.y = platform.y + platform.height;
+      this.isOnGround = true;
+      this.currentPlatform = platform;
+      this.hasAirJumped = false;
+      
+      // Handle special platform types
+      if (platform.type === 'bouncy') {
+        this.velocityY = this.BOUNCE_FORCE;
+        this.isOnGround = false;
+        this.currentPlatform = null;
+        this.events?.emit('bounce', { platform });
+      } else {
+        if (!wasOnGround) {
+          this.events?.emit('land', { platform, speed: -this.velocityY });
         }
-        break; // Only land on one platform
+        this.velocityY = 0;
       }
     }
     
+    this.lastMove = { x: this.x - start.x, y: this.y - start.y };
+    
     // Check if fell off world
     if (this.y < -100) {
       this.die();
     }
   }
   
+  // Platform whose top the feet reach first while moving from `start` by
+  // `motion` - only one is landed on
+  private findLanding(start: Rectangle, motion: Vector2, platforms: Platform[]): Platform | null {
+    let landing: Platform | null = null;
+    let landingTime = Infinity;
+    
+    for (const platform of platforms) {
+      // Swept contact with the top face, so fast falls cannot skip a platform;
+      // the end-position check still catches platforms rising into the feet
+      const contact = sweepAABB(start, motion, platform);
+      let time = contact && contact.normalY === 1 ? contact.time : null;
+      if (time === null && this.intersectsFromAbove(platform)) {
+        time = 1;
+      }
+      
+      if (time !== null && time < landingTime) {
+        landing = platform;
+        landingTime = time;
+      }
+    }
+    
+    return landing;
+  }
+  
   // Check if player is landing on platform from above
   private intersectsFromAbove(platform: Rectangle): boolean {
     const playerBottom = this.y;
@@ -177,12 +268,7 @@ export class Player implements Entity {
   }
   
   intersects(rect: Rectangle): boolean {
-    return (
-      this.x < rect.x + rect.width &&
-      this.x + this.width > rect.x &&
-      this.y < rect.y + rect.height &&
-      this.y + this.height > rect.y
-    );
+    return intersects(this, rect);
   }
   
   // Get center position for camera
@@ -227,6 +313,7 @@ export class Player implements Entity {
   respawn(x: number, y: number): void {
     this.x = x - this.width / 2;
     this.y = y - this.height / 2;
+    this.lastMove = { x: 0, y: 0 };
     this.velocityX = 0;
     this.velocityY = 0;
     this.isAlive = true;
@@ -234,6 +321,22 @@ export class Player implements Entity {
     this.isInvincible = false;
     this.invincibilityTimer = 0;
     this.hitFlashTimer = 0;
+    this.powerUps.clear();
+    this.hasAirJumped = false;
+  }
+  
+  // Grant a power-up, restarting its timer if it is already active
+  addPowerUp(type: PowerUpType): void {
+    this.powerUps.set(type, POWER_UPS[type].duration);
+  }
+  
+  hasPowerUp(type: PowerUpType): boolean {
+    return this.powerUps.has(type);
+  }
+  
+  // Use up the shield to ignore a hit - returns false without one
+  consumeShield(): boolean {
+    return this.powerUps.delete('shield');
   }
   
   // Reset invincibility (for full respawn)
@@ -242,18 +345,39 @@ export class Player implements Entity {
     this.invincibilityTimer = this.INVINCIBILITY_DURATION;
   }
   
-  // Render the player
-  render(ctx: CanvasRenderingContext2D): void {
+  // Render the player (`time` is the simulation clock in seconds)
+  render(ctx: CanvasRenderingContext2D, time: number): void {
     // Skip rendering every other frame when invincible (blinking effect)
     if (this.isInvincible) {
       const blinkRate = 8; // Blinks per second
-      const blink = Math.floor(Date.now() / (1000 / blinkRate / 2)) % 2;
+      const blink = Math.floor(time * blinkRate * 2) % 2;
       if (blink === 0) {
         // Draw semi-transparent during "off" blink frames
         ctx.globalAlpha = 0.3;
       }
     }
     
+    // Power-up auras, one ring each - blinking during the last two seconds
+    const alpha = ctx.globalAlpha;
+    let auraRadius = this.height / 2 + 6;
+    for (const [type, remaining] of this.powerUps) {
+      const expiring = remaining < 2 && Math.floor(remaining * 8) % 2 === 0;
+      ctx.strokeStyle = POWER_UPS[type].color;
+      ctx.fillStyle = POWER_UPS[type].color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(this.x + this.width / 2, this.y + this.height / 2, auraRadius, 0, Math.PI * 2);
+      // The shield is a bubble, other power-ups just a ring
+      if (type === 'shield') {
+        ctx.globalAlpha = alpha * 0.15;
+        ctx.fill();
+      }
+      ctx.globalAlpha = alpha * (expiring ? 0.2 : 0.6);
+      ctx.stroke();
+      auraRadius += 6;
+    }
+    ctx.globalAlpha = alpha;
+    
     // Determine color based on state
     let bodyColor = this.color;
     if (this.hitFlashTimer > 0) {
@@ -0,0 +1,156 @@
+import { ReplayPlayer } from './replay';
+import { ScreenButton, isInsideButton } from './screen-button';
+import { TEXT, interpolate } from './config/text';
+import { COLORS } from './config/colors';
+
+/**
+ * Replay playback controls
+ * Space/K/P pause playback, →/. step, F cycles the speed and Escape stops;
+ * the control bar at the bottom of the screen does the same by touch.
+ */
+
+const FONT_BODY = "'Space Mono', monospace";
+
+export interface ReplayControlsCallbacks {
+  // Whether the replayed run is on screen and still going - the controls
+  // ignore input otherwise
+  isActive: () => boolean;
+  onStop: () => void;
+}
+
+interface PlaybackButtons {
+  pause: ScreenButton;
+  step: ScreenButton;
+  speed: ScreenButton;
+  stop: ScreenButton;
+}
+
+export class ReplayControls {
+  private readonly player: ReplayPlayer;
+  private readonly callbacks: ReplayControlsCallbacks;
+  // Hit areas of the last rendered bar
+  private buttons: PlaybackButtons | null = null;
+
+  constructor(player: ReplayPlayer, callbacks: ReplayControlsCallbacks) {
+    this.player = player;
+    this.callbacks = callbacks;
+  }
+
+  open(): void {
+    window.addEventListener('keydown', this.handleKey);
+    window.addEventListener('touchstart', this.handleTouch, { passive: false });
+    window.addEventListener('click', this.handleClick);
+  }
+
+  close(): void {
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('touchstart', this.handleTouch);
+    window.removeEventListener('click', this.handleClick);
+  }
+
+  // Playback state, progress and the pause/step/speed/stop buttons (bottom center)
+  render(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const player = this.player;
+    const buttonWidth = 56;
+    const buttonHeight = 44;
+    const gap = 8;
+    const barWidth = buttonWidth * 4 + gap * 3;
+    const barX = width / 2 - barWidth / 2;
+    const barY = height - 20 - buttonHeight;
+    const buttonAt = (index: number): ScreenButton => ({
+      x: barX + index * (buttonWidth + gap),
+      y: barY,
+      width: buttonWidth,
+      height: buttonHeight,
+    });
+    const buttons = { pause: buttonAt(0), step: buttonAt(1), speed: buttonAt(2), stop: buttonAt(3) };
+    this.buttons = buttons;
+
+    const labels: [ScreenButton, string][] = [
+      [buttons.pause, player.paused ? TEXT.replay.resume : TEXT.replay.pause],
+      [buttons.step, TEXT.replay.step],
+      [buttons.speed, interpolate(TEXT.replay.speed, { speed: player.speed })],
+      [buttons.stop, TEXT.replay.stop],
+    ];
+    ctx.font = `18px ${FONT_BODY}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const [button, label] of labels) {
+      ctx.fillStyle = COLORS.BUTTON;
+      ctx.fillRect(button.x, button.y, button.width, button.height);
+      ctx.fillStyle = COLORS.BUTTON_TEXT;
+      ctx.fillText(label, button.x + button.width / 2, button.y + button.height * 0.52);
+    }
+
+    // Progress through the recording
+    ctx.fillStyle = COLORS.BUTTON;
+    ctx.fillRect(barX, barY - 10, barWidth * player.progress, 4);
+
+    // State and key hint above
+    let status = interpolate(TEXT.replay.playing, { speed: player.speed });
+    if (player.finished) {
+      status = TEXT.replay.ended;
+    } else if (player.paused) {
+      status = TEXT.replay.paused;
+    }
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.font = `16px ${FONT_BODY}`;
+    ctx.fillText(status, width / 2, barY - 46);
+    ctx.font = `12px ${FONT_BODY}`;
+    ctx.fillText(TEXT.replay.hint, width / 2, barY - 26);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+  }
+
+  private readonly handleKey = (e: KeyboardEvent) => {
+    if (!this.callbacks.isActive()) return;
+
+    switch (e.code) {
+      case 'Space':
+      case 'KeyK':
+      case 'KeyP':
+        this.player.togglePause();
+        break;
+      case 'ArrowRight':
+      case 'Period':
+        this.player.step();
+        break;
+      case 'KeyF':
+        this.player.cycleSpeed();
+        break;
+      case 'Escape':
+        this.callbacks.onStop();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  private handlePointer(e: Event, x: number, y: number): void {
+    const buttons = this.buttons;
+    if (!buttons || !this.callbacks.isActive()) return;
+
+    if (isInsideButton(buttons.pause, x, y)) {
+      this.player.togglePause();
+    } else if (isInsideButton(buttons.step, x, y)) {
+      this.player.step();
+    } else if (isInsideButton(buttons.speed, x, y)) {
+      this.player.cycleSpeed();
+    } else if (isInsideButton(buttons.stop, x, y)) {
+      this.callbacks.onStop();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
+
+  private readonly handleTouch = (e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (touch) this.handlePointer(e, touch.clientX, touch.clientY);
+  };
+
+  private readonly handleClick = (e: MouseEvent) => {
+    this.handlePointer(e, e.clientX, e.clientY);
+  };
+}
@@ -0,0 +1,220 @@
+import { InputState } from './types';
+import { encodeLevelParam, decodeLevelParam } from './custom-levels';
+
+/**
+ * Run replays
+ * A replay is the input state of every simulation step of a run plus what
+ * is needed to rebuild the run it came from: the hash of the level sources
+ * and the endless tower seed. Fed back through the same fixed-step update,
+ * the inputs reproduce the run exactly.
+ *
+ * Text format: `JUR<version>;<mode>;<levels hash>;<seed>;<steps>` where the
+ * steps are runs of equal inputs, each a hex digit of input flags followed by
+ * the run length in base 36, separated by dots.
+ */
+
+export const REPLAY_VERSION = 1;
+const REPLAY_MAGIC = 'JUR';
+
+// Playback speeds cycled by fast-forward
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+export type ReplayMode = 'campaign' | 'endless';
+
+export interface Replay {
+  version: number;
+  mode: ReplayMode;
+  course: string; // hashLevelSources of the campaign, 'endless' for towers
+  seed: number; // endless tower seed, 0 for the campaign
+  steps: number[]; // input flags per simulation step
+}
+
+// Input flags of one step
+const LEFT = 1;
+const RIGHT = 2;
+const JUMP = 4;
+const JUMP_PRESSED = 8;
+
+function packInput(input: InputState): number {
+  return (input.left ? LEFT : 0) |
+    (input.right ? RIGHT : 0) |
+    (input.jump ? JUMP : 0) |
+    (input.jumpPressed ? JUMP_PRESSED : 0);
+}
+
+function unpackInput(flags: number): InputState {
+  return {
+    left: (flags & LEFT) !== 0,
+    right: (flags & RIGHT) !== 0,
+    jump: (flags & JUMP) !== 0,
+    jumpPressed: (flags & JUMP_PRESSED) !== 0,
+  };
+}
+
+export function serializeReplay(replay: Replay): string {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < replay.steps.length) {
+    const flags = replay.steps[i];
+    let length = 1;
+    while (replay.steps[i + length] === flags) length++;
+    runs.push(flags.toString(16) + length.toString(36));
+    i += length;
+  }
+  return [
+    `${REPLAY_MAGIC}${replay.version}`,
+    replay.mode,
+    replay.course,
+    replay.seed,
+    runs.join('.'),
+  ].join(';');
+}
+
+// Throws if the text is not a replay this version can play
+export function parseReplay(text: string): Replay {
+  const [header, mode, course, seed, runs] = text.trim().split(';');
+  if (!header?.startsWith(REPLAY_MAGIC) || runs === undefined) {
+    throw new Error('Not a replay');
+  }
+  const version = Number(header.slice(REPLAY_MAGIC.length));
+  if (version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${header.slice(REPLAY_MAGIC.length)}`);
+  }
+  if (mode !== 'campaign' && mode !== 'endless') {
+    throw new Error(`Unknown replay mode "${mode}"`);
+  }
+
+  const steps: number[] = [];
+  for (const run of runs ? runs.split('.') : []) {
+    const flags = parseInt(run[0], 16);
+    const length = parseInt(run.slice(1), 36);
+    if (!(flags >= 0 && flags < 16) || !(length > 0)) {
+      throw new Error(`Bad replay step "${run}"`);
+    }
+    for (let i = 0; i < length; i++) steps.push(flags);
+  }
+  return { version, mode, course, seed: Number(seed) >>> 0, steps };
+}
+
+export function isReplaySource(text: string): boolean {
+  return text.startsWith(REPLAY_MAGIC);
+}
+
+export function isReplayFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.replay');
+}
+
+// Download the replay as a file and copy a link that plays it
+export function exportReplay(replay: Replay): void {
+  const source = serializeReplay(replay);
+  const blob = new Blob([source + '\n'], { type: 'text/plain' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `jump-up-${replay.mode}-${replay.course}.replay`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+
+  createReplayUrl(source)
+    .then(url => navigator.clipboard?.writeText(url))
+    .catch(() => {
+      // Clipboard access can be denied - the download still happened
+    });
+}
+
+// Link that plays the replay - keeps ?seed=/?level=/?slot= so the same levels load
+export async function createReplayUrl(source: string): Promise<string> {
+  const url = new URL(window.location.href);
+  url.searchParams.set('replay', await encodeLevelParam(source));
+  return url.toString();
+}
+
+// Throws if the parameter is not a compressed replay
+export async function decodeReplayParam(param: string): Promise<Replay> {
+  return parseReplay(await decodeLevelParam(param));
+}
+
+// Collects the inputs of a run as it is played
+export class ReplayRecorder {
+  private readonly mode: ReplayMode;
+  private readonly course: string;
+  private readonly seed: number;
+  private steps: number[] = [];
+
+  constructor(mode: ReplayMode, course: string, seed: number) {
+    this.mode = mode;
+    this.course = course;
+    this.seed = seed;
+  }
+
+  record(input: InputState): void {
+    this.steps.push(packInput(input));
+  }
+
+  finish(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      mode: this.mode,
+      course: this.course,
+      seed: this.seed,
+      steps: [...this.steps],
+    };
+  }
+}
+
+/**
+ * Feeds a replay's inputs to the simulation one step at a time.
+ * While paused, steps only run when requested one by one.
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  paused: boolean = false;
+  private speedIndex: number = 0;
+  private position: number = 0;
+  private pendingSteps: number = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  get speed(): number {
+    return REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  get finished(): boolean {
+    return this.position >= this.replay.steps.length;
+  }
+
+  // Fraction of the replay played (0-1)
+  get progress(): number {
+    return this.replay.steps.length ? this.position / this.replay.steps.length : 1;
+  }
+
+  // Whether the simulation may run its next step
+  takeStep(): boolean {
+    if (!this.paused) return true;
+    if (this.pendingSteps === 0) return false;
+    this.pendingSteps--;
+    return true;
+  }
+
+  // Input of the next step - no input once the recording runs out
+  nextInput(): InputState {
+    if (this.finished) return unpackInput(0);
+    return unpackInput(this.replay.steps[this.position++]);
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.pendingSteps = 0;
+  }
+
+  // Pause and advance a single step
+  step(): void {
+    this.paused = true;
+    this.pendingSteps++;
+  }
+
+  cycleSpeed(): void {
+    this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+  }
+}
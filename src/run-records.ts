@@ -0,0 +1,66 @@
+/**
+ * Run timer records
+ * A run is timed from the first input to the last portal. Splits are taken
+ * at height milestones and at every portal, so runs of the same levels
+ * always produce the same sequence of splits and can be compared split by
+ * split. The personal best and the best time reached at each split are kept
+ * in localStorage per set of levels.
+ */
+
+const RECORDS_PREFIX = 'jump-up.records.';
+
+// A split is taken every this many rows climbed within a level
+export const SPLIT_ROWS = 25;
+
+export interface RunRecord {
+  time: number; // seconds
+  splits: number[]; // run time at each split, in seconds
+}
+
+export interface CourseRecords {
+  personalBest: RunRecord | null;
+  bestSplits: number[]; // fastest run time ever reached at each split
+}
+
+// Short stable hash (FNV-1a) identifying a set of level sources
+export function hashLevelSources(sources: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of sources.join('\n\u0000\n')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function loadCourseRecords(course: string): CourseRecords {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECORDS_PREFIX + course) || 'null');
+    if (stored && Array.isArray(stored.bestSplits)) {
+      return stored as CourseRecords;
+    }
+  } catch {
+    // Unreadable records start over
+  }
+  return { personalBest: null, bestSplits: [] };
+}
+
+export function saveCourseRecords(course: string, records: CourseRecords): void {
+  try {
+    localStorage.setItem(RECORDS_PREFIX + course, JSON.stringify(records));
+  } catch {
+    // Storage can be unavailable (private mode) - records then only last the session
+  }
+}
+
+// m:ss.cc
+export function formatRunTime(seconds: number): string {
+  const centis = Math.floor(seconds * 100);
+  const minutes = Math.floor(centis / 6000);
+  const secs = Math.floor(centis / 100) % 60;
+  return `${minutes}:${String(secs).padStart(2, '0')}.${String(centis % 100).padStart(2, '0')}`;
+}
+
+// Signed difference to a record, e.g. -1.25 or +0.40
+export function formatTimeDelta(seconds: number): string {
+  return `${seconds < 0 ? '-' : '+'}${Math.abs(seconds).toFixed(2)}`;
+}
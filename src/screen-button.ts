@@ -0,0 +1,11 @@
+import { Rectangle } from './types';
+
+// Hit area of a button drawn on the canvas (CSS pixels)
+export type ScreenButton = Rectangle;
+
+// Whether a pointer position lies on a button - never on one not drawn yet
+export function isInsideButton(button: ScreenButton | null, x: number, y: number): boolean {
+  return !!button &&
+    x >= button.x && x <= button.x + button.width &&
+    y >= button.y && y <= button.y + button.height;
+}
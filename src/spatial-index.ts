@@ -0,0 +1,136 @@
+import { Rectangle, Platform, Enemy, Collectible, Cannon, Checkpoint } from './types';
+
+/**
+ * Row-bucketed spatial index
+ * Entities are filed under every tile row they overlap, so collision and
+ * visibility checks only look at the rows around a height instead of the
+ * whole level. Entities that move must be re-filed with `update`.
+ */
+
+export class RowIndex<T extends Rectangle> {
+  private readonly rowHeight: number;
+  private rows: Map<number, T[]> = new Map();
+  private spans: Map<T, { first: number; last: number }> = new Map();
+
+  constructor(rowHeight: number, items: T[] = []) {
+    this.rowHeight = rowHeight;
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  get size(): number {
+    return this.spans.size;
+  }
+
+  insert(item: T): void {
+    if (this.spans.has(item)) return;
+
+    const span = this.spanOf(item);
+    this.spans.set(item, span);
+    for (let row = span.first; row <= span.last; row++) {
+      const bucket = this.rows.get(row);
+      if (bucket) {
+        bucket.push(item);
+      } else {
+        this.rows.set(row, [item]);
+      }
+    }
+  }
+
+  remove(item: T): void {
+    const span = this.spans.get(item);
+    if (!span) return;
+
+    this.spans.delete(item);
+    for (let row = span.first; row <= span.last; row++) {
+      const bucket = this.rows.get(row);
+      if (!bucket) continue;
+      const index = bucket.indexOf(item);
+      if (index !== -1) bucket.splice(index, 1);
+      if (bucket.length === 0) this.rows.delete(row);
+    }
+  }
+
+  // Re-file an entity after it moved (cheap when it stayed in its rows)
+  update(item: T): void {
+    const span = this.spans.get(item);
+    if (!span) return;
+
+    const next = this.spanOf(item);
+    if (next.first !== span.first || next.last !== span.last) {
+      this.remove(item);
+      this.insert(item);
+    }
+  }
+
+  // Entities in the rows overlapping the height range [bottom, top], each once
+  query(bottom: number, top: number): T[] {
+    const first = this.rowOf(bottom);
+    const last = this.rowOf(top);
+    const result: T[] = [];
+
+    for (let row = first; row <= last; row++) {
+      const bucket = this.rows.get(row);
+      if (!bucket) continue;
+      for (const item of bucket) {
+        // Entities spanning several rows are taken from the lowest queried one
+        if (Math.max(this.spans.get(item)!.first, first) === row) {
+          result.push(item);
+        }
+      }
+    }
+    return result;
+  }
+
+  private rowOf(y: number): number {
+    return Math.floor(y / this.rowHeight);
+  }
+
+  private spanOf(item: T): { first: number; last: number } {
+    return { first: this.rowOf(item.y), last: this.rowOf(item.y + item.height) };
+  }
+}
+
+// Indexes of the entity lists of a level
+export interface LevelIndex {
+  platforms: RowIndex<Platform>;
+  enemies: RowIndex<Enemy>;
+  collectibles: RowIndex<Collectible>;
+  cannons: RowIndex<Cannon>;
+  checkpoints: RowIndex<Checkpoint>;
+}
+
+export function createLevelIndex(
+  rowHeight: number,
+  level: {
+    platforms: Platform[];
+    enemies: Enemy[];
+    collectibles: Collectible[];
+    cannons: Cannon[];
+    checkpoints: Checkpoint[];
+  }
+): LevelIndex {
+  return {
+    platforms: new RowIndex(rowHeight, level.platforms),
+    enemies: new RowIndex(rowHeight, level.enemies),
+    collectibles: new RowIndex(rowHeight, level.collectibles),
+    cannons: new RowIndex(rowHeight, level.cannons),
+    checkpoints: new RowIndex(rowHeight, level.checkpoints),
+  };
+}
+
+// Re-file the entities that move on their own: moving and falling platforms
+// and enemies (collectibles only move under the magnet and are updated there)
+export function updateMovingEntities(index: LevelIndex, platforms: Platform[], enemies: Enemy[]): void {
+  for (const platform of platforms) {
+    if (platform.type === 'moving' || platform.type === 'breakable') {
+      index.platforms.update(platform);
+    }
+  }
+  for (const enemy of enemies) {
+    if (enemy.alive && enemy.type !== 'static') {
+      index.enemies.update(enemy);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { LevelIndex } from './spatial-index';
+
 // Game types and interfaces
 
 export interface Vector2 {
@@ -26,6 +28,12 @@ export interface Platform extends Rectangle {
   startX?: number;
   // Current velocity (for dragging player)
   currentVelocityX?: number;
+  // For breakable platforms
+  breakState?: 'solid' | 'crumbling' | 'falling' | 'broken';
+  breakTimer?: number; // seconds left in the current state
+  crumbleTime?: number; // seconds from first touch to falling
+  reformDelay?: number; // seconds until a broken platform returns, 0 = never
+  startY?: number;
 }
 
 export interface Enemy extends Entity {
@@ -36,18 +44,26 @@ export interface Enemy extends Entity {
   startX?: number;
   startY?: number;
   alive: boolean;
+  // Distance moved during the last update (for swept collision checks)
+  lastMove?: Vector2;
 }
 
+// Effects a power-up collectible can grant
+export const POWER_UP_TYPES = ['doubleJump', 'shield', 'magnet', 'highJump', 'slowFall'] as const;
+export type PowerUpType = typeof POWER_UP_TYPES[number];
+
 export interface Collectible extends Rectangle {
   type: 'coin' | 'powerup' | 'star';
   collected: boolean;
   color: string;
+  // Effect granted by power-up collectibles
+  powerUp?: PowerUpType;
 }
 
 export interface Cannon extends Rectangle {
   direction: 1 | -1; // 1 = right, -1 = left
   fireRate: number; // seconds between shots
-  lastFired: number; // timestamp
+  lastFired: number; // simulation time in seconds
   color: string;
 }
 
@@ -62,16 +78,44 @@ export interface Portal extends Rectangle {
   color: string;
 }
 
+export interface Checkpoint extends Rectangle {
+  active: boolean; // touched by the player
+  color: string;
+}
+
+// Level settings from the optional front-matter block above the grid
+export interface LevelMeta {
+  name: string;
+  author: string;
+  lives: number;
+  backgroundTop: string;
+  backgroundBottom: string;
+  // Default entity parameters
+  cannonFireRate: number; // seconds between shots
+  movingRange: number; // tiles
+  movingSpeed: number; // pixels per second
+  walkerSpeed: number; // pixels per second
+  walkerPatrol: number; // tiles
+  flyerSpeed: number; // pixels per second
+  flyerPatrol: number; // tiles
+  crumbleTime: number; // seconds
+  reformDelay: number; // seconds, 0 = breakable platforms never return
+  powerUp: PowerUpType; // granted by power-up tiles without an override
+}
+
 export interface LevelData {
+  meta: LevelMeta;
   platforms: Platform[];
   enemies: Enemy[];
   collectibles: Collectible[];
   cannons: Cannon[];
   projectiles: Projectile[];
+  checkpoints: Checkpoint[];
   portal: Portal | null;
   playerStart: Vector2;
   levelHeight: number;
   levelWidth: number;
+  index: LevelIndex; // row buckets of the entity lists above
 }
 
 export interface InputState {
@@ -88,6 +132,15 @@ export interface GameState {
   paused: boolean;
 }
 
+// Stats that carry over between campaign levels
+export interface RunStats {
+  levelsCompleted: number;
+  stomps: number;
+  livesLost: number;
+  score: number;
+  collected: Record<Collectible['type'], number>;
+}
+
 // Level tile types mapped from ASCII/emoji
 export const TILE_TYPES = {
   // Platforms
@@ -125,6 +178,10 @@ export const TILE_TYPES = {
   '💎': 'collectible-powerup',
   'U': 'collectible-powerup',
   
+  // Checkpoint (respawn point once touched)
+  '🚩': 'checkpoint',
+  'K': 'checkpoint',
+  
   // Portal (goal)
   '🌀': 'portal',
   'O': 'portal',
@@ -135,4 +192,5 @@ export const TILE_TYPES = {
 } as const;
 
 export type TileType = keyof typeof TILE_TYPES;
+export type TileKind = typeof TILE_TYPES[TileType];
 